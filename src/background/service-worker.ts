@@ -1,8 +1,26 @@
-import { reminderManager } from '@shared/reminders/reminder-manager';
+import { reminderManager, REMINDER_NOTIFICATION_PREFIX } from '@shared/reminders/reminder-manager';
 import { storageManager } from '@shared/storage';
+import { achievementManager } from '@shared/achievements/achievement-manager';
+import { streakManager, STREAK_ROLLOVER_ALARM } from '@shared/streaks/streak-manager';
+import { focusSessionManager } from '@shared/focus/focus-session-manager';
 import { contentAnalyzer } from '@shared/analytics/content-analyzer';
-import { StoryGenerator } from '@shared/analytics/story-generator';
+import { StoryGenerator, StoryData } from '@shared/analytics/story-generator';
+import { dailyActivityTracker } from '@shared/analytics/daily-activity-tracker';
 import { FocusLevel, ActivityType } from '@shared/analytics/types';
+import { UserSettings } from '@shared/types';
+import { MessageRouter, BackgroundMessages, broadcastToTabs } from '@shared/messaging';
+import { eventBus } from '@shared/events/event-bus';
+import { pomodoroManager, POMODORO_ALARM } from '@shared/pomodoro/pomodoro-manager';
+import { dndManager, DND_END_ALARM, DND_DIGEST_ALARM } from '@shared/dnd/dnd-manager';
+import { focusGuard, FOCUS_GUARD_ALARM } from '@shared/focus/focus-guard';
+import { petNeedsManager, PET_NEEDS_ALARM } from '@shared/pet/needs-manager';
+import { progressionManager } from '@shared/pet/progression-manager';
+import { shopManager } from '@shared/shop/shop-manager';
+import { petRosterManager, validatePetName } from '@shared/pet/roster-manager';
+
+// Focus accrual defaults (overridable in UserSettings.focusTracking)
+const DEFAULT_IDLE_THRESHOLD_SECONDS = 60;
+const DEFAULT_COUNTED_ACTIVITY_TYPES: ActivityType[] = ['work', 'research'];
 
 // Feeding lock to prevent race conditions
 let feedingLock = false;
@@ -15,10 +33,38 @@ let feedingLockTimeout: ReturnType<typeof setTimeout> | null = null;
 // Initialize storage and reminders when service worker starts
 chrome.runtime.onStartup.addListener(async () => {
   await storageManager.initializeDefaults();
+  await streakManager.rollOver();
+  await reminderManager.catchUpMissedReminders();
+  await petNeedsManager.start();
+});
+
+// Chrome's default for idle.onStateChanged: 'idle' arrives this long after the last input
+const IDLE_DETECTION_INTERVAL_MS = 60 * 1000;
+
+// Alarms don't fire while the machine sleeps; reconcile reminders when the user is back.
+// Being away also tells the daily activity tracker whether a break reminder was followed.
+chrome.idle.onStateChanged.addListener(async (state) => {
+  if (state === 'active') {
+    await dailyActivityTracker.markBack();
+    await reminderManager.catchUpMissedReminders();
+    await petNeedsManager.catchUp();
+  } else {
+    await dailyActivityTracker.markAway(state === 'idle' ? Date.now() - IDLE_DETECTION_INTERVAL_MS : Date.now());
+  }
+});
+
+chrome.windows.onFocusChanged.addListener(async (windowId) => {
+  if (windowId === chrome.windows.WINDOW_ID_NONE) {
+    await dailyActivityTracker.markAway();
+  } else {
+    await dailyActivityTracker.markBack();
+  }
 });
 
 chrome.runtime.onInstalled.addListener(async () => {
   await storageManager.initializeDefaults();
+  await streakManager.rollOver();
+  await petNeedsManager.start();
   
   // Request notification permission for system-level notifications
   try {
@@ -42,392 +88,323 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name.startsWith('reminder_')) {
     // Processing reminder alarm
     await reminderManager.handleAlarmTrigger(alarm.name);
+  } else if (alarm.name === STREAK_ROLLOVER_ALARM) {
+    // Midnight: settle yesterday's streak and compact its browsing activity
+    await streakManager.rollOver();
+    await contentAnalyzer.rollUpActivity();
+  } else if (alarm.name === POMODORO_ALARM) {
+    await pomodoroManager.handleAlarm();
+  } else if (alarm.name === DND_END_ALARM || alarm.name === DND_DIGEST_ALARM) {
+    await dndManager.handleAlarm(alarm.name);
+  } else if (alarm.name === PET_NEEDS_ALARM) {
+    await petNeedsManager.catchUp();
+  } else if (alarm.name === FOCUS_GUARD_ALARM) {
+    // Paid-for extra minutes are up; interrupt again if the user is still there
+    await focusGuard.handleAlarm();
+    await guardActiveTab();
   }
 });
 
 // Handle messages from content scripts and popup
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  handleMessage(message, sender, sendResponse);
-  return true; // Keep message channel open for async response
-});
+const router = new MessageRouter<BackgroundMessages>({ rejectUnknown: true });
 
-async function handleMessage(message: any, _sender: any, sendResponse: any) {
-  try {
-    switch (message.type) {
-      case 'GET_PET_STATE':
-        const petState = await storageManager.getPetState();
-        sendResponse({ success: true, data: petState });
-        break;
-
-      case 'UPDATE_PET_STATE':
-        await storageManager.setPetState(message.data);
-        sendResponse({ success: true });
-        break;
-
-      case 'GET_USER_SETTINGS':
-        const settings = await storageManager.getUserSettings();
-        // Retrieved settings
-        sendResponse({ success: true, data: settings });
-        break;
-
-      case 'UPDATE_USER_SETTINGS':
-        await storageManager.setUserSettings(message.data);
-        
-        // If pet type changed, update the pet state
-        const existingPetState = await storageManager.getPetState();
-        if (existingPetState && existingPetState.type !== message.data.petType) {
-          console.log('focusPet: Pet type changed from', existingPetState.type, 'to', message.data.petType);
-          existingPetState.type = message.data.petType;
-          existingPetState.name = message.data.petName;
-          await storageManager.setPetState(existingPetState);
-          
-          // Sync pet state to all tabs
-          const tabs = await chrome.tabs.query({});
-          tabs.forEach(tab => {
-            if (tab.id) {
-              chrome.tabs.sendMessage(tab.id, { type: 'SYNC_PET_STATE' }).catch(() => {
-                // Ignore errors for tabs that don't have content script
-              });
-            }
-          });
-        }
-        
-        // Verify the save by reading back
-        await storageManager.getUserSettings();
-        // Verified saved settings
-        
-        sendResponse({ success: true });
-        break;
-
-      case 'GET_REMINDERS':
-        const reminders = await reminderManager.getReminders();
-        sendResponse({ success: true, data: reminders });
-        break;
-
-      case 'CREATE_REMINDER':
-        const newReminder = await reminderManager.createReminder(message.data);
-        sendResponse({ success: true, data: newReminder });
-        break;
-
-      case 'UPDATE_REMINDER':
-        const updatedReminder = await reminderManager.updateReminder(message.reminderId, message.data);
-        sendResponse({ success: true, data: updatedReminder });
-        break;
-
-      case 'DELETE_REMINDER':
-        const deleted = await reminderManager.deleteReminder(message.reminderId);
-        sendResponse({ success: true, data: deleted });
-        break;
-
-      case 'CREATE_PRESET_REMINDER':
-        // Creating preset reminder
-        const presetReminder = await reminderManager.createPresetReminder(message.reminderType);
-        sendResponse({ success: true, data: presetReminder });
-        break;
-
-      case 'GET_FOCUS_STATS':
-        const focusStats = await storageManager.getFocusStats();
-        sendResponse({ success: true, data: focusStats });
-        break;
-
-      case 'UPDATE_FOCUS_STATS':
-        await storageManager.setFocusStats(message.data);
-        sendResponse({ success: true });
-        break;
-
-      case 'ADD_FOCUS_SESSION':
-        await storageManager.addFocusSession(message.data);
-        sendResponse({ success: true });
-        break;
-
-      case 'UPDATE_FOCUS_SESSION':
-        await storageManager.updateFocusSession(message.data);
-        sendResponse({ success: true });
-        break;
-
-      case 'ADD_TREATS':
-        const currentPetState = await storageManager.getPetState();
-        if (currentPetState) {
-          currentPetState.treats += message.count;
-          await storageManager.setPetState(currentPetState);
-          
-          // Sync pet state to all tabs
-          const tabs = await chrome.tabs.query({});
-          tabs.forEach(tab => {
-            if (tab.id) {
-              chrome.tabs.sendMessage(tab.id, { type: 'SYNC_PET_STATE' }).catch(() => {
-                // Ignore errors for tabs that don't have content script
-              });
-            }
-          });
-        }
-        sendResponse({ success: true });
-        break;
-
-      case 'FEED_PET':
-        // Check if feeding is already in progress
-        if (feedingLock) {
-          console.log('focusPet: Feeding already in progress, skipping...');
-          sendResponse({ success: false, error: 'Feeding already in progress' });
-          return;
-        }
+router
+  .on('GET_PET_STATE', async () => {
+    await petNeedsManager.catchUp();
+    return storageManager.getPetState();
+  })
 
-        // Set feeding lock
-        feedingLock = true;
-        
-        // Clear any existing timeout
-        if (feedingLockTimeout) {
-          clearTimeout(feedingLockTimeout);
-        }
-        
-        // Auto-release lock after 5 seconds
-        feedingLockTimeout = setTimeout(() => {
-          feedingLock = false;
-          feedingLockTimeout = null;
-        }, 5000);
-
-        try {
-          const feedingPetState = await storageManager.getPetState();
-          
-          if (feedingPetState && feedingPetState.treats > 0) {
-            // Store original values for logging
-            const originalTreats = feedingPetState.treats;
-            const originalHappiness = feedingPetState.happiness;
-            const originalSatiety = feedingPetState.satiety;
-            
-            // Validate pet state before feeding
-            if (feedingPetState.happiness < 0 || feedingPetState.satiety < 0 || feedingPetState.energy < 0) {
-              console.warn('focusPet: Invalid pet state detected during feeding, recovering...');
-              feedingPetState.happiness = Math.max(feedingPetState.happiness, 50); // Set to reasonable minimum, not 0
-              feedingPetState.satiety = Math.max(feedingPetState.satiety, 50); // Set to reasonable minimum, not 0
-              feedingPetState.energy = Math.max(feedingPetState.energy, 75); // Set to reasonable minimum, not 0
-            }
-            
-            // Use atomic update with version control
-            const updates = {
-              treats: feedingPetState.treats - 1,
-              happiness: Math.min(100, feedingPetState.happiness + 15),
-              satiety: Math.min(100, feedingPetState.satiety + 20)
-            };
-            
-            console.log('focusPet: Feeding pet -', {
-              treats: `${originalTreats} → ${updates.treats}`,
-              happiness: `${originalHappiness} → ${updates.happiness}`,
-              satiety: `${originalSatiety} → ${updates.satiety}`
-            });
-            
-            const success = await storageManager.updatePetStateAtomic(updates);
-            
-            if (success) {
-              // Sync pet state to all tabs
-              const tabs = await chrome.tabs.query({});
-              let successfulSyncs = 0;
-              let failedSyncs = 0;
-              
-              for (const tab of tabs) {
-                if (tab.id) {
-                  try {
-                    await chrome.tabs.sendMessage(tab.id, { type: 'SYNC_PET_STATE' });
-                    successfulSyncs++;
-                  } catch (error) {
-                    failedSyncs++;
-                    // This is normal for tabs without content scripts
-                  }
-                }
-              }
-              
-              if (successfulSyncs > 0) {
-                console.log(`focusPet: Synced to ${successfulSyncs} tab(s)`);
-              } else {
-                console.log('focusPet: No tabs synced, using storage fallback');
-                await storageManager.syncAcrossTabs();
-              }
-              
-              sendResponse({ success: true });
-            } else {
-              console.log('focusPet: Feeding failed due to version conflict');
-              sendResponse({ success: false, error: 'State conflict, please try again' });
-            }
-          } else {
-            console.log('focusPet: No treats available');
-            sendResponse({ success: false, error: 'No treats available' });
-          }
-        } catch (error) {
-          console.error('focusPet: Error during feeding:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        } finally {
-          // Release feeding lock
-          feedingLock = false;
-          if (feedingLockTimeout) {
-            clearTimeout(feedingLockTimeout);
-            feedingLockTimeout = null;
-          }
-        }
-        break;
+  .on('UPDATE_PET_STATE', async ({ data }) => {
+    await storageManager.setPetState(data);
+    await eventBus.emit('pet:stateChanged', { petState: data });
+  })
 
+  .on('GET_USER_SETTINGS', () => storageManager.getUserSettings())
 
+  .on('UPDATE_USER_SETTINGS', async ({ data: submitted }) => {
+    // Reject a bad pet name before anything is saved, rather than after the rest of the settings
+    const data = { ...submitted, petName: validatePetName(submitted.petName) };
 
-      case 'SYNC_STORAGE':
-        await storageManager.syncAcrossTabs();
-        sendResponse({ success: true });
-        break;
+    // Picking a new anchor forgets the spots the pet was dragged to, so it moves there everywhere
+    const previousSettings = await storageManager.getUserSettings();
+    if (previousSettings && previousSettings.petPosition !== data.petPosition) {
+      await storageManager.clearPetPlacements();
+    }
 
-      case 'TRIGGER_AI_RESPONSE':
-        console.log('focusPet: Service worker received TRIGGER_AI_RESPONSE');
-        // Send message to all tabs to trigger AI response
-        const tabs = await chrome.tabs.query({});
-        tabs.forEach(tab => {
-          if (tab.id) {
-            chrome.tabs.sendMessage(tab.id, { type: 'TRIGGER_AI_RESPONSE' }).catch(() => {
-              // Ignore errors for tabs that don't have content script
-            });
-          }
-        });
-        sendResponse({ success: true });
-        break;
-
-      case 'SNOOZE_REMINDER':
-        const reminder = reminderManager.getReminders().find(r => r.id === message.reminderId);
-        if (reminder) {
-          const snoozedReminder = {
-            ...reminder,
-            id: reminder.id + '_snoozed_' + Date.now(),
-            nextTrigger: Date.now() + (message.snoozeMinutes * 60 * 1000),
-            isActive: true
-          };
-          await reminderManager.createReminder(snoozedReminder);
-          // Reminder snoozed
-        }
-        sendResponse({ success: true });
-        break;
-
-// TEMPORARY: Test analytics summary
-      case 'TEST_ANALYTICS_SUMMARY':
-        try {
-          const summary = await contentAnalyzer.getActivitySummary(1); // last 1 day
-          console.log('focusPet: Analytics summary (last 1 day):', summary);
-          sendResponse({ success: true, data: summary });
-        } catch (error) {
-          console.error('focusPet: Error getting analytics summary:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'GENERATE_DAILY_STORY':
-        try {
-          const summary = await contentAnalyzer.getActivitySummary(1); // last 1 day
-          if (summary && summary.totalTime > 0) {
-            const story = StoryGenerator.generateStory(summary, 'daily');
-            await storageManager.addStory(story);
-            console.log('focusPet: Generated daily story:', story.title);
-            sendResponse({ success: true, data: story });
-          } else {
-            sendResponse({ success: false, error: 'No activity data available for story generation' });
-          }
-        } catch (error) {
-          console.error('focusPet: Error generating daily story:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'GENERATE_WEEKLY_STORY':
-        try {
-          const summary = await contentAnalyzer.getActivitySummary(7); // last 7 days
-          if (summary && summary.totalTime > 0) {
-            const story = StoryGenerator.generateStory(summary, 'weekly');
-            await storageManager.addStory(story);
-            console.log('focusPet: Generated weekly story:', story.title);
-            sendResponse({ success: true, data: story });
-          } else {
-            sendResponse({ success: false, error: 'No activity data available for story generation' });
-          }
-        } catch (error) {
-          console.error('focusPet: Error generating weekly story:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'GET_STORIES':
-        try {
-          const stories = await storageManager.getStories();
-          sendResponse({ success: true, data: stories });
-        } catch (error) {
-          console.error('focusPet: Error getting stories:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'GET_ANALYTICS_STATUS':
-        try {
-          const status = contentAnalyzer.getStatus();
-          const summary = await contentAnalyzer.getActivitySummary(1); // last 1 day
-          sendResponse({ 
-            success: true, 
-            data: { 
-              status, 
-              summary,
-              activityLogLength: contentAnalyzer['activityLog']?.length || 0
-            } 
-          });
-        } catch (error) {
-          console.error('focusPet: Error getting analytics status:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'CLEAR_ANALYTICS_DATA':
-        try {
-          await contentAnalyzer.clearActivityLog();
-          sendResponse({ success: true });
-        } catch (error) {
-          console.error('focusPet: Error clearing analytics data:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'TEST_ANALYTICS_TRACKING':
-        try {
-          // Manually log some test activity
-          const testActivity = {
-            domain: 'test.com',
-            pageTitle: '',
-            timeSpent: 5,
-            focusLevel: 'medium' as FocusLevel,
-            activityType: 'work' as ActivityType,
-            timestamp: Date.now()
-          };
-          
-          // Add to activity log directly
-          contentAnalyzer['activityLog'].push(testActivity);
-          await contentAnalyzer['saveActivityLog']();
-          
-          console.log('focusPet: Added test activity to analytics');
-          sendResponse({ success: true, message: 'Test activity logged' });
-        } catch (error) {
-          console.error('focusPet: Error testing analytics tracking:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
-
-      case 'GET_LATEST_STORY':
-        try {
-          const story = await storageManager.getLatestStory();
-          sendResponse({ success: true, data: story });
-        } catch (error) {
-          console.error('focusPet: Error getting latest story:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        }
-        break;
+    await storageManager.setUserSettings(data);
+    await eventBus.emit('settings:updated', { settings: data });
+    
+    // A different pet type switches to (or adopts) a pet of that type; a new name renames the active pet
+    const existingPetState = await storageManager.getPetState();
+    if (existingPetState && existingPetState.type !== data.petType) {
+      console.log('focusPet: Pet changed from', existingPetState.type, existingPetState.name, 'to', data.petType, data.petName);
+      await petRosterManager.switchToType(data.petType, data.petName);
+    } else if (existingPetState && existingPetState.name !== data.petName) {
+      await petRosterManager.rename(data.petName);
+    }
+  })
+
+  .on('GET_REMINDERS', () => reminderManager.getReminders())
+
+  .on('CREATE_REMINDER', ({ data }) => reminderManager.createReminder(data))
 
-      default:
-        sendResponse({ success: false, error: 'Unknown message type' });
+  .on('UPDATE_REMINDER', ({ reminderId, data }) => reminderManager.updateReminder(reminderId, data))
+
+  .on('DELETE_REMINDER', ({ reminderId }) => reminderManager.deleteReminder(reminderId))
+
+  .on('CREATE_PRESET_REMINDER', ({ reminderType }) => reminderManager.createPresetReminder(reminderType))
+
+  .on('SNOOZE_REMINDER', ({ reminderId, snoozeMinutes }) => reminderManager.snoozeReminder(reminderId, snoozeMinutes))
+
+  .on('COMPLETE_REMINDER', ({ reminderId }) => reminderManager.completeReminder(reminderId))
+
+  .on('SKIP_REMINDER', ({ reminderId }) => reminderManager.skipReminder(reminderId))
+
+  .on('DISMISS_REMINDER', ({ reminderId }) => reminderManager.dismissReminder(reminderId))
+
+  .on('GET_REMINDER_HISTORY', ({ reminderId }) => reminderManager.getHistory(reminderId))
+
+  .on('GET_DND_STATUS', () => dndManager.getStatus())
+
+  .on('START_DND', ({ minutes }) => dndManager.startManual(minutes))
+
+  .on('END_DND', () => dndManager.endManual())
+
+  .on('GET_FOCUS_STATS', () => storageManager.getFocusStats())
+
+  .on('UPDATE_FOCUS_STATS', async ({ data }) => {
+    await storageManager.setFocusStats(data);
+  })
+
+  .on('ADD_FOCUS_SESSION', async ({ data }) => {
+    await storageManager.addFocusSession(data);
+  })
+
+  .on('UPDATE_FOCUS_SESSION', async ({ data }) => {
+    await storageManager.updateFocusSession(data);
+  })
+
+  .on('START_FOCUS', ({ website }) => focusSessionManager.startSession(website))
+
+  .on('PAUSE_FOCUS', () => focusSessionManager.pauseSession())
+
+  .on('RESUME_FOCUS', () => focusSessionManager.resumeSession())
+
+  .on('END_FOCUS', () => focusSessionManager.endSession())
+
+  .on('GET_ACTIVE_FOCUS_SESSION', () => focusSessionManager.getActiveSession())
+
+  .on('GET_POMODORO_STATE', () => pomodoroManager.getState())
+
+  .on('START_POMODORO', () => pomodoroManager.start())
+
+  .on('STOP_POMODORO', () => pomodoroManager.stop())
+
+  .on('SKIP_POMODORO_PHASE', () => pomodoroManager.skip())
+
+  .on('GET_STREAK_HISTORY', ({ days }) => streakManager.getHistory(days))
+
+  .on('BUY_STREAK_FREEZE', async () => {
+    const ledger = await streakManager.buyFreeze();
+    
+    // Treats were spent
+    await emitPetStateChanged();
+    return { freezesAvailable: ledger.freezesAvailable };
+  })
+
+  .on('GET_PET_ROSTER', () => petRosterManager.getRoster())
+
+  .on('ADOPT_PET', ({ petType, name }) => petRosterManager.adopt(petType, name))
+
+  .on('SWITCH_PET', ({ petId }) => petRosterManager.switchTo(petId))
+
+  .on('PURCHASE_ITEM', async ({ itemId }) => {
+    const petState = await shopManager.purchase(itemId);
+    await emitPetStateChanged();
+    return petState;
+  })
+
+  .on('SET_ACCESSORY_EQUIPPED', async ({ itemId, equipped }) => {
+    const petState = await shopManager.setEquipped(itemId, equipped);
+    await emitPetStateChanged();
+    return petState;
+  })
+
+  .on('GET_ACHIEVEMENTS', () => achievementManager.getAchievements())
+
+  .on('RESOLVE_FOCUS_GUARD', ({ domain, choice }, sender) => focusGuard.resolve(sender.tab?.id, domain, choice))
+
+  .on('ADD_TREATS', async ({ count }) => {
+    const currentPetState = await storageManager.getPetState();
+    if (currentPetState) {
+      currentPetState.treats += count;
+      await storageManager.setPetState(currentPetState);
+      await eventBus.emit('pet:stateChanged', { petState: currentPetState });
     }
+  })
+
+  .on('FEED_PET', feedPet)
+
+  .on('RECORD_PET_INTERACTION', () => dailyActivityTracker.recordPetInteraction())
+
+  .on('SYNC_STORAGE', () => storageManager.syncAcrossTabs())
+
+  .on('TRIGGER_AI_RESPONSE', async () => {
+    console.log('focusPet: Service worker received TRIGGER_AI_RESPONSE');
+    // Send message to all tabs to trigger AI response
+    await broadcastToTabs('TRIGGER_AI_RESPONSE');
+  })
+
+  // TEMPORARY: Test analytics summary
+  .on('TEST_ANALYTICS_SUMMARY', async () => {
+    const summary = await contentAnalyzer.getActivitySummary(1); // last 1 day
+    console.log('focusPet: Analytics summary (last 1 day):', summary);
+    return summary;
+  })
+
+  .on('GENERATE_DAILY_STORY', () => generateStory('daily'))
+
+  .on('GENERATE_WEEKLY_STORY', () => generateStory('weekly'))
+
+  .on('GET_STORIES', () => storageManager.getStories())
+
+  .on('GET_LATEST_STORY', () => storageManager.getLatestStory())
+
+  .on('GET_ANALYTICS_STATUS', async () => {
+    const status = contentAnalyzer.getStatus();
+    const summary = await contentAnalyzer.getActivitySummary(1); // last 1 day
+    return {
+      status,
+      summary,
+      activityLogLength: contentAnalyzer['activityLog']?.length || 0
+    };
+  })
+
+  .on('CLEAR_ANALYTICS_DATA', () => contentAnalyzer.clearActivityLog())
+
+  .on('TEST_ANALYTICS_TRACKING', async () => {
+    // Manually log some test activity
+    const testActivity = {
+      domain: 'test.com',
+      pageTitle: '',
+      timeSpent: 5,
+      focusLevel: 'medium' as FocusLevel,
+      activityType: 'work' as ActivityType,
+      timestamp: Date.now()
+    };
+    
+    // Add to activity log directly
+    contentAnalyzer['activityLog'].push(testActivity);
+    await contentAnalyzer['saveActivityLog']();
+    
+    console.log('focusPet: Added test activity to analytics');
+  })
+
+  .listen();
+
+async function feedPet(): Promise<void> {
+  // Check if feeding is already in progress
+  if (feedingLock) {
+    console.log('focusPet: Feeding already in progress, skipping...');
+    throw new Error('Feeding already in progress');
+  }
+
+  // Set feeding lock
+  feedingLock = true;
+  
+  // Clear any existing timeout
+  if (feedingLockTimeout) {
+    clearTimeout(feedingLockTimeout);
+  }
+  
+  // Auto-release lock after 5 seconds
+  feedingLockTimeout = setTimeout(() => {
+    feedingLock = false;
+    feedingLockTimeout = null;
+  }, 5000);
+
+  try {
+    // Settle the needs up to now so the treat isn't eaten by decay from before it was given;
+    // pet writes are queued, so the feed below is applied on top of the settled state
+    await petNeedsManager.catchUp();
+
+    let noTreats = false;
+    const fedPetState = await storageManager.updatePetState(feedingPetState => {
+      if (feedingPetState.treats <= 0) {
+        noTreats = true;
+        return null;
+      }
+
+      // Validate pet state before feeding
+      if (feedingPetState.happiness < 0 || feedingPetState.satiety < 0 || feedingPetState.energy < 0) {
+        console.warn('focusPet: Invalid pet state detected during feeding, recovering...');
+        feedingPetState.happiness = Math.max(feedingPetState.happiness, 50); // Set to reasonable minimum, not 0
+        feedingPetState.satiety = Math.max(feedingPetState.satiety, 50); // Set to reasonable minimum, not 0
+        feedingPetState.energy = Math.max(feedingPetState.energy, 75); // Set to reasonable minimum, not 0
+      }
+
+      const updates = {
+        treats: feedingPetState.treats - 1,
+        happiness: Math.min(100, feedingPetState.happiness + 15),
+        satiety: Math.min(100, feedingPetState.satiety + 20)
+      };
+
+      console.log('focusPet: Feeding pet -', {
+        treats: `${feedingPetState.treats} → ${updates.treats}`,
+        happiness: `${feedingPetState.happiness} → ${updates.happiness}`,
+        satiety: `${feedingPetState.satiety} → ${updates.satiety}`
+      });
+      return updates;
+    });
+
+    if (noTreats) {
+      console.log('focusPet: No treats available');
+      throw new Error('No treats available');
+    }
+    if (!fedPetState) {
+      console.log('focusPet: Feeding failed, pet state was not saved');
+      throw new Error('State conflict, please try again');
+    }
+
+    await emitPetStateChanged();
+    await achievementManager.recordTreatFed();
+    await progressionManager.awardXp('treatFed');
+    await dailyActivityTracker.recordPetInteraction();
   } catch (error) {
-    console.error('Error handling message:', error);
-    sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+    console.error('focusPet: Error during feeding:', error);
+    throw error;
+  } finally {
+    // Release feeding lock
+    feedingLock = false;
+    if (feedingLockTimeout) {
+      clearTimeout(feedingLockTimeout);
+      feedingLockTimeout = null;
+    }
+  }
+}
+
+// Tell every context about the pet state as it is now in storage
+async function emitPetStateChanged(): Promise<void> {
+  const petState = await storageManager.getPetState();
+  if (petState) {
+    await eventBus.emit('pet:stateChanged', { petState });
   }
 }
 
+async function generateStory(type: 'daily' | 'weekly'): Promise<StoryData> {
+  const summary = await contentAnalyzer.getActivitySummary(type === 'daily' ? 1 : 7); // last 1 or 7 days
+  if (!summary || summary.totalTime <= 0) {
+    throw new Error('No activity data available for story generation');
+  }
+
+  const activity = await dailyActivityTracker.getRange(type === 'daily' ? 1 : 7);
+  const story = StoryGenerator.generateStory(summary, type, activity);
+  await storageManager.addStory(story);
+  await achievementManager.checkAchievements();
+  console.log(`focusPet: Generated ${type} story:`, story.title);
+  return story;
+}
+
 // Handle notification clicks
 chrome.notifications.onClicked.addListener((_notificationId) => {
   // Handle notification click - could open popup or specific page
@@ -436,44 +413,28 @@ chrome.notifications.onClicked.addListener((_notificationId) => {
 
 // Handle notification button clicks
 chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
-      // Notification button clicked
-  
-  if (notificationId.startsWith('notification_') || notificationId.startsWith('system_notification_')) {
-    const reminderId = notificationId.replace('notification_', '').replace('system_notification_', '');
-    
-    if (buttonIndex === 0) {
-      // Dismiss button
-      // Dismissing reminder
-      await chrome.notifications.clear(notificationId);
-    } else if (buttonIndex === 1) {
-      // Snooze 5 minutes
-      // Snoozing reminder
-      await chrome.notifications.clear(notificationId);
-      
-      // Create a new reminder for 5 minutes from now
-      const reminder = reminderManager.getReminders().find(r => r.id === reminderId);
-      if (reminder) {
-        const snoozedReminder = {
-          ...reminder,
-          id: reminderId + '_snoozed',
-          nextTrigger: Date.now() + (5 * 60 * 1000), // 5 minutes
-          isActive: true
-        };
-        await reminderManager.createReminder(snoozedReminder);
-        // Reminder snoozed for 5 minutes
-      }
-    }
+  if (!notificationId.startsWith(REMINDER_NOTIFICATION_PREFIX)) return;
+  const reminderId = notificationId.slice(REMINDER_NOTIFICATION_PREFIX.length);
+
+  if (buttonIndex === 0) {
+    // Done
+    await reminderManager.completeReminder(reminderId);
+  } else if (buttonIndex === 1) {
+    // Snooze 5 minutes
+    await reminderManager.snoozeReminder(reminderId, 5);
+  }
+});
+
+// Closing a reminder notification by hand skips that occurrence
+chrome.notifications.onClosed.addListener(async (notificationId, byUser) => {
+  if (byUser && notificationId.startsWith(REMINDER_NOTIFICATION_PREFIX)) {
+    await reminderManager.skipReminder(notificationId.slice(REMINDER_NOTIFICATION_PREFIX.length));
   }
 });
 
-// Handle tab updates to sync pet state and initialize tracking
+// Handle tab updates to initialize tracking
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
   if (changeInfo.status === 'complete' && tab.url) {
-    // Sync pet state to new tab
-    chrome.tabs.sendMessage(tabId, { type: 'SYNC_PET_STATE' }).catch(() => {
-      // Ignore errors for tabs that don't have content script
-    });
-    
     // Initialize content analyzer tracking for this tab
     try {
       await contentAnalyzer.handleTabUpdate(tabId, tab);
@@ -481,17 +442,52 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
       console.error('focusPet: Error initializing tab tracking:', error);
     }
   }
+
+  // Full loads end with 'complete'; in-page navigations only change the URL of a loaded tab
+  if (changeInfo.status === 'complete' || (changeInfo.url && tab.status === 'complete')) {
+    await guardTab(tabId, tab);
+  }
 });
 
 // Handle tab activation for content analyzer
 chrome.tabs.onActivated.addListener(async (activeInfo) => {
   try {
     await contentAnalyzer.handleTabActivation(activeInfo.tabId);
+    await guardTab(activeInfo.tabId, await chrome.tabs.get(activeInfo.tabId));
   } catch (error) {
     console.error('focusPet: Error handling tab activation:', error);
   }
 });
 
+// Check the page in front of the user as soon as focus time begins
+eventBus.on('focus:sessionStarted', () => guardActiveTab());
+eventBus.on('pomodoro:phaseChanged', ({ state }) => {
+  if (state.isRunning && state.phase === 'work') {
+    guardActiveTab();
+  }
+});
+
+// Focus guard: interrupt blocked sites during focus time
+async function guardTab(tabId: number, tab: chrome.tabs.Tab): Promise<void> {
+  if (!tab.url) return;
+  try {
+    await focusGuard.intervene(tabId, tab.url, contentAnalyzer.classifyUrl(tab.url, tab.title));
+  } catch (error) {
+    console.error('focusPet: Error running focus guard:', error);
+  }
+}
+
+async function guardActiveTab(): Promise<void> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (tab?.id) {
+      await guardTab(tab.id, tab);
+    }
+  } catch (error) {
+    console.error('focusPet: Error checking the active tab:', error);
+  }
+}
+
 // Handle tab removal for content analyzer
 chrome.tabs.onRemoved.addListener(async (tabId) => {
   try {
@@ -511,7 +507,7 @@ chrome.action.onClicked.addListener((_tab) => {
 setInterval(async () => {
   try {
     const settings = await storageManager.getUserSettings();
-    if (settings?.focusTracking?.enabled) {
+    if (settings?.focusTracking?.enabled && await isUserFocused(settings)) {
       await trackFocusTime();
     }
   } catch (error) {
@@ -519,11 +515,41 @@ setInterval(async () => {
   }
 }, 60000); // Check every minute
 
+// Only count a minute when the user is at the keyboard, in a focused browser window, on a counted site
+async function isUserFocused(settings: UserSettings): Promise<boolean> {
+  try {
+    const idleThreshold = settings.focusTracking.idleThresholdSeconds ?? DEFAULT_IDLE_THRESHOLD_SECONDS;
+    const idleState = await new Promise<chrome.idle.IdleState>(resolve => {
+      chrome.idle.queryState(Math.max(15, idleThreshold), resolve); // Chrome's minimum is 15s
+    });
+    if (idleState !== 'active') {
+      return false;
+    }
+
+    const focusedWindow = await chrome.windows.getLastFocused();
+    if (!focusedWindow.focused) {
+      return false;
+    }
+
+    const [activeTab] = await chrome.tabs.query({ active: true, windowId: focusedWindow.id });
+    if (!activeTab?.url) {
+      return false;
+    }
+
+    const activityType = contentAnalyzer.classifyUrl(activeTab.url, activeTab.title);
+    const countedTypes = settings.focusTracking.countedActivityTypes ?? DEFAULT_COUNTED_ACTIVITY_TYPES;
+    return activityType !== null && countedTypes.includes(activityType);
+  } catch (error) {
+    console.error('focusPet: Error checking focus state:', error);
+    return false;
+  }
+}
+
 async function trackFocusTime(): Promise<void> {
   try {
     const focusStats = await storageManager.getFocusStats();
     if (focusStats) {
-      // Add focus time regardless of browser state
+      // Caller has already checked idle state, window focus and site category
       focusStats.totalFocusTime += 1; // 1 minute
 
       // Ensure lastTreatTime exists
@@ -541,23 +567,13 @@ async function trackFocusTime(): Promise<void> {
           const timeSinceLastTreatSeconds = Math.floor(timeSinceLastTreat / 1000);
           console.log('focusPet: Time since last treat:', timeSinceLastTreatSeconds, 'seconds');
           console.log('focusPet: Treat reward interval met, awarding treat');
-          const petState = await storageManager.getPetState();
+          const petState = await storageManager.updatePetState(current => ({ treats: current.treats + 1 }));
           if (petState) {
-            console.log('focusPet: Current treats before award:', petState.treats);
-            petState.treats += 1;
             console.log('focusPet: Treats after award:', petState.treats);
-            await storageManager.setPetState(petState);
 
             // Sync pet state to all tabs (including popup)
-            const tabs = await chrome.tabs.query({});
-            // Sending SYNC_PET_STATE to tabs
-            tabs.forEach(tab => {
-              if (tab.id) {
-                chrome.tabs.sendMessage(tab.id, { type: 'SYNC_PET_STATE' }).catch(() => {
-                  // Ignore errors for tabs that don't have content script
-                });
-              }
-            });
+            await eventBus.emit('pet:stateChanged', { petState });
+            await eventBus.emit('focus:treatEarned', { treats: 1, reason: 'focus' });
 
             // Notify user of treat earned
             try {
@@ -580,6 +596,9 @@ async function trackFocusTime(): Promise<void> {
       }
 
       await storageManager.setFocusStats(focusStats);
+      await streakManager.recordFocusMinutes(1);
+      await progressionManager.awardXp('focusMinute');
+      await achievementManager.checkAchievements();
     }
   } catch (error) {
     console.error('Error tracking focus time:', error);
@@ -0,0 +1,9 @@
+// Element with inline styles and optional text; page-supplied strings go in as text, never as HTML
+export function createElement<K extends keyof HTMLElementTagNameMap>(tag: K, style: string, text?: string): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  element.style.cssText = style;
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  return element;
+}
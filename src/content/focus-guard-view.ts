@@ -0,0 +1,104 @@
+import { send } from '@shared/messaging';
+import { FocusGuardChoice, FocusGuardPrompt, PetState } from '@shared/types';
+import { createElement } from './dom';
+
+// Full-page interstitial for a blocked site during focus time; false if one is already up.
+// `onClose` runs once the user has picked an option and the interstitial is gone.
+export function showFocusGuard(prompt: FocusGuardPrompt, pet: PetState | null, onClose: () => void): boolean {
+  if (document.getElementById('focuspet-guard')) return false;
+
+  // Stop videos and audio behind the interstitial
+  document.querySelectorAll<HTMLMediaElement>('video, audio').forEach(media => media.pause());
+
+  const petType = pet?.type ?? 'cat';
+  const petName = pet?.name ?? 'Your pet';
+  const canAfford = prompt.treats >= prompt.treatCost;
+  const headline = prompt.petAnimation === 'sad'
+    ? `${petName} is sad to see you back on ${prompt.domain}`
+    : `${petName} looks worried...`;
+
+  const guard = document.createElement('div');
+  guard.id = 'focuspet-guard';
+  guard.style.cssText = `
+    position: fixed;
+    inset: 0;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: linear-gradient(135deg, rgba(102,126,234,0.97) 0%, rgba(118,75,162,0.97) 100%);
+    color: white;
+    z-index: 2147483647;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    text-align: center;
+  `;
+
+  const buttonStyle = (primary: boolean) => `
+    background: rgba(255,255,255,${primary ? '0.9' : '0.2'});
+    color: ${primary ? '#5a4a9e' : 'white'};
+    border: none;
+    border-radius: 8px;
+    padding: 10px 18px;
+    cursor: pointer;
+    font-size: 14px;
+    font-weight: 600;
+  `;
+
+  // Built node by node: the pet name and domain are shown as text, never parsed as HTML
+  const panel = createElement('div', 'max-width: 420px; padding: 24px;');
+
+  const image = document.createElement('img');
+  image.src = chrome.runtime.getURL(`assets/pets/${petType}/${prompt.petAnimation}.png`);
+  image.alt = '';
+  image.style.cssText = 'width: 96px; height: auto;';
+
+  const buttons = createElement('div', 'display: flex; flex-direction: column; gap: 8px;');
+  const choices: { choice: FocusGuardChoice; label: string; primary: boolean }[] = [
+    { choice: 'goBack', label: '🎯 Go back to work', primary: true },
+    {
+      choice: 'snooze',
+      label: `${prompt.graceMinutes} more minutes (🍪 ${prompt.treatCost} of your ${prompt.treats} treats)`,
+      primary: false,
+    },
+    { choice: 'allow', label: `Always allow ${prompt.domain}`, primary: false },
+  ];
+  for (const { choice, label, primary } of choices) {
+    const button = createElement('button', buttonStyle(primary), label);
+    button.dataset.focuspetGuard = choice;
+    button.disabled = choice === 'snooze' && !canAfford;
+    buttons.appendChild(button);
+  }
+
+  const errorMessage = createElement('p', 'margin: 12px 0 0 0; font-size: 13px;');
+  errorMessage.id = 'focuspet-guard-error';
+
+  panel.append(
+    image,
+    createElement('h2', 'margin: 16px 0 8px 0; font-size: 22px;', headline),
+    createElement(
+      'p',
+      'margin: 0 0 20px 0; font-size: 15px; line-height: 1.4; opacity: 0.9;',
+      `You're in focus time and ${prompt.domain} counts as ${prompt.activityType}.`
+    ),
+    buttons,
+    errorMessage
+  );
+  guard.appendChild(panel);
+  document.body.appendChild(guard);
+
+  guard.querySelectorAll<HTMLButtonElement>('[data-focuspet-guard]').forEach(button => {
+    button.addEventListener('click', async () => {
+      try {
+        await send('RESOLVE_FOCUS_GUARD', {
+          domain: prompt.domain,
+          choice: button.dataset.focuspetGuard as FocusGuardChoice,
+        });
+        guard.remove();
+        onClose();
+      } catch (error) {
+        errorMessage.textContent = error instanceof Error ? error.message : 'Something went wrong, please try again.';
+      }
+    });
+  });
+
+  return true;
+}
@@ -1,6 +1,62 @@
 import { PetEngine } from '@shared/pet/pet-engine';
 import { storageManager } from '@shared/storage';
-import { PetState, Position } from '@shared/types';
+import { send, MessageRouter, ContentMessages } from '@shared/messaging';
+import { eventBus } from '@shared/events/event-bus';
+import { DEFAULT_OVERLAY_SETTINGS, isOverlayAllowed, toSiteKey } from '@shared/overlay/overlay-rules';
+import {
+  Viewport,
+  anchorPlacement,
+  clampToViewport,
+  fromPlacement,
+  resolvePlacement,
+  snapPosition,
+  toPlacement,
+  withPlacement,
+} from '@shared/overlay/pet-placement';
+import { levelForXp, stageForLevel } from '@shared/pet/progression';
+import { getEquippedAccessories } from '@shared/shop/shop-manager';
+import {
+  AccessorySlot,
+  Achievement,
+  OverlaySettings,
+  PetAnimation,
+  PetPlacement,
+  PetStage,
+  PetState,
+  PomodoroState,
+  Position,
+} from '@shared/types';
+import { showFocusGuard } from './focus-guard-view';
+import { createElement } from './dom';
+
+type ReminderAction = 'done' | 'snooze5' | 'snooze15' | 'skip';
+
+const REMINDER_ACTIONS: { id: ReminderAction; label: string }[] = [
+  { id: 'done', label: '✅ Done' },
+  { id: 'snooze5', label: 'Snooze 5m' },
+  { id: 'snooze15', label: 'Snooze 15m' },
+  { id: 'skip', label: 'Skip' },
+];
+
+// Sprite width per evolution stage, so growing up shows even with a shared sprite set
+const STAGE_SPRITE_SIZES: Record<PetStage, number> = {
+  baby: 44,
+  teen: 54,
+  adult: 64,
+};
+
+// Pet types with their own art per stage under assets/pets/<type>/<stage>/; the rest share one
+// sprite set and grow up by size alone. Add a type here when its stage sprites ship.
+const STAGED_SPRITE_TYPES: string[] = [];
+
+// Where each accessory slot sits on the sprite: distance from the top and glyph size, as fractions of its height
+const ACCESSORY_ANCHORS: Record<AccessorySlot, { top: number; size: number }> = {
+  head: { top: 0.05, size: 0.45 },
+  face: { top: 0.38, size: 0.38 },
+  neck: { top: 0.68, size: 0.34 },
+};
+
+const DRAG_THRESHOLD = 4; // px the mouse must move before a press on the pet becomes a drag
 
 class PetOverlay {
   private canvas: HTMLCanvasElement;
@@ -9,12 +65,20 @@ class PetOverlay {
   private petState: PetState | null = null;
   private animationFrame: number | null = null;
   private sprites: Map<string, HTMLImageElement> = new Map();
+  private spriteStage: PetStage | null = null; // Stage the loaded sprite set belongs to
+  private spriteBounds: { x: number; y: number; width: number; height: number } | null = null; // As last drawn
   private speechBubble: { message: string; show: boolean; timer: number } = {
     message: '',
     show: false,
     timer: 0
   };
   private feedingInProgress: boolean = false; // Prevent multiple simultaneous feedings
+  private pomodoroAnimation: PetAnimation | null = null; // Animation held for the running Pomodoro phase
+  private placement: PetPlacement = anchorPlacement('bottom-right'); // Where the pet rests on this page
+  private drag: { grabOffset: Position; start: Position; moved: boolean } | null = null;
+  private suppressClick: boolean = false; // The click that ends a drag isn't a pat, or a click on the page
+  private disposers: Array<() => void> = []; // Undo every listener this overlay added
+  private destroyed: boolean = false;
 
   constructor() {
     this.canvas = this.createCanvas();
@@ -47,8 +111,11 @@ class PetOverlay {
   }
 
   private async initialize(): Promise<void> {
+    await this.loadPlacement();
     await this.loadPetState();
     await this.loadSprites();
+    if (this.destroyed) return; // Hidden again while loading
+
     this.setupEventListeners();
     
     // Ensure canvas is properly sized
@@ -81,21 +148,71 @@ class PetOverlay {
       // Update last interaction when overlay is initialized on a new page
       // This prevents the pet from immediately napping when navigating
       this.petState.lastInteraction = Date.now();
+      // Keep the pet where it is on a reload; a fresh page starts it at its resting place
+      this.petState.position = this.petEngine?.getPetState().position ?? fromPlacement(this.placement, this.getViewport());
       this.petEngine = new PetEngine(this.petState);
     } else {
       console.warn('focusPet: No pet state found in storage');
     }
   }
 
+  // A spot the pet was dragged to on this site (or anywhere), else the petPosition anchor
+  private async loadPlacement(): Promise<void> {
+    const [settings, placements] = await Promise.all([
+      storageManager.getUserSettings(),
+      storageManager.getPetPlacements(),
+    ]);
+    this.placement = settings
+      ? resolvePlacement(placements, settings, toSiteKey(location.href))
+      : anchorPlacement('bottom-right');
+  }
+
+  private async savePlacement(position: Position): Promise<void> {
+    this.placement = toPlacement(position, this.getViewport());
+    try {
+      const [settings, placements] = await Promise.all([
+        storageManager.getUserSettings(),
+        storageManager.getPetPlacements(),
+      ]);
+      if (!settings) return;
+      await storageManager.setPetPlacements(withPlacement(placements, this.placement, settings, toSiteKey(location.href)));
+    } catch (error) {
+      console.error('focusPet: Error saving pet position:', error);
+    }
+  }
+
+  // Send the pet back to its resting place, e.g. after a resize or a settings change
+  private moveToPlacement(): void {
+    this.petEngine?.setPosition(fromPlacement(this.placement, this.getViewport()));
+  }
+
+  private getViewport(): Viewport {
+    return { width: window.innerWidth, height: window.innerHeight };
+  }
+
+  // Only a press on the drawn sprite picks the pet up; the page around it keeps its clicks and selection
+  private isOverPet(x: number, y: number): boolean {
+    const bounds = this.spriteBounds;
+    return !!bounds && x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+  }
+
+  private getStage(): PetStage {
+    return this.petState ? stageForLevel(this.petState.type, levelForXp(this.petState.xp ?? 0)) : 'baby';
+  }
+
+  // Types listed in STAGED_SPRITE_TYPES load their stage art; the rest load the base sprites
   private async loadSprites(): Promise<void> {
     const petTypes = ['cat', 'dog', 'dragon', 'penguin', 'bunny'];
     const animations = ['idle', 'walk', 'sit', 'nap', 'play', 'excited', 'worried', 'sad'];
+    const stage = this.getStage();
+    this.spriteStage = stage;
 
     for (const petType of petTypes) {
       for (const animation of animations) {
         const spriteKey = `${petType}_${animation}`;
+        const path = STAGED_SPRITE_TYPES.includes(petType) ? `${petType}/${stage}` : petType;
         const img = new Image();
-        img.src = chrome.runtime.getURL(`assets/pets/${petType}/${animation}.png`);
+        img.src = chrome.runtime.getURL(`assets/pets/${path}/${animation}.png`);
         
         // Add error handling and logging
         img.onload = () => {
@@ -111,62 +228,113 @@ class PetOverlay {
   }
 
   private setupEventListeners(): void {
+    // Pick the pet up; the canvas ignores the mouse, so this listens ahead of the page instead
+    this.addWindowListener('mousedown', (e) => {
+      const { button, clientX, clientY } = e as MouseEvent;
+      if (button !== 0 || !this.petState || !this.isOverPet(clientX, clientY)) return;
+
+      e.preventDefault(); // No text selection or native drag while carrying the pet
+      e.stopPropagation();
+      this.drag = {
+        grabOffset: { x: clientX - this.petState.position.x, y: clientY - this.petState.position.y },
+        start: { x: clientX, y: clientY },
+        moved: false,
+      };
+    }, true);
+
     // Mouse movement (track mouse anywhere on the page)
-    window.addEventListener('mousemove', (e) => {
-      if (this.petEngine) {
-        this.petEngine.onMouseMove(e.clientX, e.clientY);
+    this.addWindowListener('mousemove', (e) => {
+      const { clientX, clientY } = e as MouseEvent;
+      if (this.drag) {
+        this.dragTo(clientX, clientY);
+      } else if (this.petEngine) {
+        this.petEngine.onMouseMove(clientX, clientY);
       }
     });
 
+    // Drop: snap to a nearby corner or edge and remember the spot
+    this.addWindowListener('mouseup', () => {
+      const drag = this.drag;
+      this.drag = null;
+      if (!drag?.moved || !this.petEngine) return;
+
+      const position = snapPosition(this.petEngine.getPetState().position, this.getViewport());
+      this.petEngine.setPosition(position);
+      this.savePlacement(position);
+
+      this.suppressClick = true;
+      setTimeout(() => { this.suppressClick = false; }, 0); // Only the click fired by this mouseup
+    }, true);
+
     // Mouse clicks (optional: respond to clicks anywhere)
-    window.addEventListener('click', (e) => {
+    this.addWindowListener('click', (e) => {
+      if (this.suppressClick) {
+        this.suppressClick = false;
+        e.preventDefault();
+        e.stopPropagation();
+        return;
+      }
       if (this.petEngine) {
-        this.petEngine.onMouseClick(e.clientX, e.clientY);
+        this.petEngine.onMouseClick((e as MouseEvent).clientX, (e as MouseEvent).clientY);
       }
-    });
-
-    // Listen for reminder messages from background script
-    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-      if (message.type === 'REMINDER_TRIGGERED') {
-        this.handleReminder(message.reminder);
-        sendResponse({ success: true });
-      } else if (message.type === 'SYNC_PET_STATE') {
-        // Reload pet state when popup makes changes
-        this.reloadPetState().then(() => {
-          sendResponse({ success: true });
-        }).catch((error) => {
-          console.error('focusPet: Error reloading pet state:', error);
-          sendResponse({ success: false, error: error.message });
-        });
-        return true; // Keep message channel open for async response
-      } else if (message.type === 'TRIGGER_AI_RESPONSE') {
-        if (this.petEngine) {
-          this.petEngine.generateAIResponse();
+    }, true);
+
+    // Reload pet state when the popup or background makes changes
+    this.disposers.push(
+      eventBus.on('pet:stateChanged', () => this.reloadPetState()),
+      eventBus.on('settings:updated', async () => {
+        await this.loadPlacement();
+        this.moveToPlacement();
+      }),
+      eventBus.on('achievement:unlocked', ({ achievement }) => this.handleAchievementUnlocked(achievement)),
+      eventBus.on('pet:leveledUp', ({ level, stage, evolved }) => this.handleLevelUp(level, stage, evolved)),
+      eventBus.on('focus:sessionStarted', () => {
+        this.showSpeechBubble("Focus time! I'll keep quiet 🎯");
+      }),
+      eventBus.on('focus:sessionEnded', ({ session }) => {
+        this.showSpeechBubble(`Great session! ${session.duration} minutes of focus 🎉`);
+      }),
+      eventBus.on('pomodoro:phaseChanged', ({ state }) => {
+        this.applyPomodoroState(state);
+        if (state.isRunning) {
+          this.showSpeechBubble(state.phase === 'work' ? "Focus round! I'll sit quietly 🍅" : "Break time! Let's play 🎾");
         }
-        sendResponse({ success: true });
-      }
-    });
+      }),
+    );
 
-    // Listen for storage changes as a fallback for message passing
-    chrome.storage.onChanged.addListener((changes, namespace) => {
-      if (namespace === 'local' && changes.petState) {
-        this.reloadPetState().catch((error) => {
-          console.error('focusPet: Error reloading pet state from storage change:', error);
-        });
-      }
-    });
+    // Pick up a Pomodoro that was already running when this page loaded
+    send('GET_POMODORO_STATE')
+      .then(state => this.applyPomodoroState(state))
+      .catch(error => console.error('focusPet: Error loading Pomodoro state:', error));
 
     // Listen for speech bubble events
-    window.addEventListener('pet:speechBubble', ((e: CustomEvent) => {
-      this.showSpeechBubble(e.detail.message);
-    }) as EventListener);
+    this.addWindowListener('pet:speechBubble', (e) => {
+      this.showSpeechBubble((e as CustomEvent).detail.message);
+    });
 
     // Handle window resize
-    window.addEventListener('resize', () => {
+    this.addWindowListener('resize', () => {
       this.resizeCanvas();
+      this.moveToPlacement();
     });
   }
 
+  private addWindowListener(type: string, listener: EventListener, capture: boolean = false): void {
+    window.addEventListener(type, listener, capture);
+    this.disposers.push(() => window.removeEventListener(type, listener, capture));
+  }
+
+  private dragTo(x: number, y: number): void {
+    if (!this.drag || !this.petEngine) return;
+    if (!this.drag.moved && Math.hypot(x - this.drag.start.x, y - this.drag.start.y) < DRAG_THRESHOLD) return;
+
+    this.drag.moved = true;
+    this.petEngine.setPosition(clampToViewport(
+      { x: x - this.drag.grabOffset.x, y: y - this.drag.grabOffset.y },
+      this.getViewport()
+    ));
+  }
+
   private resizeCanvas(): void {
     const newWidth = window.innerWidth;
     const newHeight = window.innerHeight;
@@ -212,7 +380,7 @@ class PetOverlay {
 
     if (sprite && sprite.complete && sprite.naturalWidth > 0) {
       // Calculate dimensions based on original aspect ratio
-      const baseSize = 64; // Base size for width
+      const baseSize = STAGE_SPRITE_SIZES[this.spriteStage ?? 'adult']; // Base size for width
       const aspectRatio = sprite.naturalHeight / sprite.naturalWidth;
       const width = baseSize;
       const height = baseSize * aspectRatio;
@@ -227,6 +395,9 @@ class PetOverlay {
       // Draw the image with transparency support
       this.ctx.drawImage(sprite, x, y, width, height);
       this.ctx.restore();
+      this.spriteBounds = { x, y, width, height };
+
+      this.renderAccessories(x, y, width, height);
     } else {
       // Fallback: draw a simple colored circle
       console.log(`focusPet: Using fallback rendering for ${spriteKey}`);
@@ -234,12 +405,29 @@ class PetOverlay {
     }
   }
 
+  // Equipped shop accessories, layered over the sprite
+  private renderAccessories(x: number, y: number, width: number, height: number): void {
+    if (!this.petState) return;
+
+    this.ctx.save();
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    for (const accessory of getEquippedAccessories(this.petState)) {
+      if (!accessory.slot) continue;
+      const anchor = ACCESSORY_ANCHORS[accessory.slot];
+      this.ctx.font = `${Math.round(height * anchor.size)}px sans-serif`;
+      this.ctx.fillText(accessory.icon, x + width / 2, y + height * anchor.top);
+    }
+    this.ctx.restore();
+  }
+
   private renderFallbackPet(): void {
     if (!this.petState) return;
 
     const size = 40;
     const x = this.petState.position.x;
     const y = this.petState.position.y;
+    this.spriteBounds = { x: x - size / 2, y: y - size / 2, width: size, height: size };
 
     // Draw pet body (circle)
     this.ctx.save();
@@ -335,7 +523,8 @@ class PetOverlay {
 
     // Auto-hide speech bubble (longer for reminders)
     this.speechBubble.timer++;
-    const maxTimer = this.speechBubble.message.includes('⏰') ? 300 : 120; // 5 seconds for reminders, 2 for others
+    const isProminent = this.speechBubble.message.includes('⏰') || this.speechBubble.message.includes('🏆');
+    const maxTimer = isProminent ? 300 : 120; // 5 seconds for reminders and achievements, 2 for others
     if (this.speechBubble.timer > maxTimer) {
       this.speechBubble.show = false;
       this.speechBubble.timer = 0;
@@ -416,7 +605,7 @@ class PetOverlay {
     this.speechBubble.timer = 0;
   }
 
-  private async handleReminder(reminder: any): Promise<void> {
+  public async handleReminder(reminder: any): Promise<void> {
     // Show a prominent speech bubble
     this.showSpeechBubble(`⏰ ${reminder.title}: ${reminder.message}`);
     
@@ -429,6 +618,41 @@ class PetOverlay {
     this.showOverlayNotification(reminder);
   }
 
+  private applyPomodoroState(state: PomodoroState): void {
+    this.pomodoroAnimation = !state.isRunning ? null : state.phase === 'work' ? 'sit' : 'play';
+    if (this.petEngine) {
+      this.petEngine.holdAnimation(this.pomodoroHold());
+    }
+  }
+
+  // The phase's animation, if this pet has it; 'play' is bought in the shop, so breaks may just stay idle
+  private pomodoroHold(): PetAnimation | null {
+    const unlocked = this.petState?.unlockedAnimations ?? [];
+    return this.pomodoroAnimation && unlocked.includes(this.pomodoroAnimation) ? this.pomodoroAnimation : null;
+  }
+
+  private handleAchievementUnlocked(achievement: Achievement): void {
+    const message = `🏆 ${achievement.icon} ${achievement.name}!`;
+
+    // Let the pet celebrate; the engine raises the speech bubble itself
+    if (this.petEngine) {
+      this.petEngine.reactToReminder(message);
+    } else {
+      this.showSpeechBubble(message);
+    }
+  }
+
+  private handleLevelUp(level: number, stage: PetStage, evolved: boolean): void {
+    const name = this.petState?.name ?? 'Your pet';
+    const message = evolved ? `✨ ${name} grew into a ${stage}! (level ${level})` : `⭐ Level ${level}!`;
+
+    if (this.petEngine) {
+      this.petEngine.reactToReminder(message);
+    } else {
+      this.showSpeechBubble(message);
+    }
+  }
+
   private showOverlayNotification(reminder: any): void {
     // Create a prominent notification overlay
     const notification = document.createElement('div');
@@ -449,44 +673,53 @@ class PetOverlay {
       border: 2px solid rgba(255,255,255,0.2);
     `;
     
-    notification.innerHTML = `
-      <div style="display: flex; align-items: center; margin-bottom: 10px;">
-        <span style="font-size: 24px; margin-right: 10px;">⏰</span>
-        <h3 style="margin: 0; font-size: 16px; font-weight: 600;">${reminder.title}</h3>
-      </div>
-      <p style="margin: 0; font-size: 14px; line-height: 1.4; opacity: 0.9;">${reminder.message}</p>
-      <div style="
-        position: absolute;
-        top: 8px;
-        right: 8px;
-        display: flex;
-        gap: 8px;
-      ">
-        <button id="focuspet-snooze" style="
-          background: rgba(255,255,255,0.2);
-          border: none;
-          color: white;
-          border-radius: 4px;
-          padding: 4px 8px;
-          cursor: pointer;
-          font-size: 11px;
-          font-weight: 500;
-        ">Snooze 5m</button>
-        <button id="focuspet-dismiss" style="
-          background: rgba(255,255,255,0.2);
-          border: none;
-          color: white;
-          border-radius: 50%;
-          width: 24px;
-          height: 24px;
-          cursor: pointer;
-          font-size: 12px;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-        ">×</button>
-      </div>
-    `;
+    // Built node by node: the reminder's title and message are shown as text, never parsed as HTML
+    const header = createElement('div', 'display: flex; align-items: center; margin-bottom: 10px;');
+    header.append(
+      createElement('span', 'font-size: 24px; margin-right: 10px;', '⏰'),
+      createElement('h3', 'margin: 0; font-size: 16px; font-weight: 600;', reminder.title)
+    );
+
+    const dismissBtn = createElement('button', `
+      position: absolute;
+      top: 8px;
+      right: 8px;
+      background: rgba(255,255,255,0.2);
+      border: none;
+      color: white;
+      border-radius: 50%;
+      width: 24px;
+      height: 24px;
+      cursor: pointer;
+      font-size: 12px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    `, '×');
+    dismissBtn.id = 'focuspet-dismiss';
+
+    const actions = createElement('div', 'display: flex; flex-wrap: wrap; gap: 6px; margin-top: 12px;');
+    const actionButtons = REMINDER_ACTIONS.map(action => {
+      const button = createElement('button', `
+        background: rgba(255,255,255,${action.id === 'done' ? '0.35' : '0.2'});
+        border: none;
+        color: white;
+        border-radius: 4px;
+        padding: 4px 8px;
+        cursor: pointer;
+        font-size: 11px;
+        font-weight: 500;
+      `, action.label);
+      actions.appendChild(button);
+      return { button, action: action.id };
+    });
+
+    notification.append(
+      header,
+      createElement('p', 'margin: 0; font-size: 14px; line-height: 1.4; opacity: 0.9;', reminder.message),
+      dismissBtn,
+      actions
+    );
     
     // Add CSS animation
     const style = document.createElement('style');
@@ -519,42 +752,71 @@ class PetOverlay {
       }
     }, 30000); // 30 seconds instead of 10
     
-    // Manual dismiss button
-    const dismissBtn = notification.querySelector('#focuspet-dismiss');
-    if (dismissBtn) {
-      dismissBtn.addEventListener('click', () => {
-        if (notification.parentNode) {
-          notification.parentNode.removeChild(notification);
-        }
-      });
-    }
+    const close = () => {
+      if (notification.parentNode) {
+        notification.parentNode.removeChild(notification);
+      }
+    };
 
-    // Snooze button
-    const snoozeBtn = notification.querySelector('#focuspet-snooze');
-    if (snoozeBtn) {
-      snoozeBtn.addEventListener('click', async () => {
-        if (notification.parentNode) {
-          notification.parentNode.removeChild(notification);
-        }
-        
-        // Send message to background script to snooze the reminder
+    // Close without answering; only logged in the reminder's history
+    dismissBtn.addEventListener('click', async () => {
+      close();
+      try {
+        await send('DISMISS_REMINDER', { reminderId: reminder.id });
+      } catch (error) {
+        console.error('Error dismissing reminder:', error);
+      }
+    });
+
+    // Done / snooze / skip buttons
+    actionButtons.forEach(({ button, action }) => {
+      button.addEventListener('click', async () => {
+        close();
         try {
-          await chrome.runtime.sendMessage({
-            type: 'SNOOZE_REMINDER',
-            reminderId: reminder.id,
-            snoozeMinutes: 5
-          });
+          await this.answerReminder(reminder.id, action);
         } catch (error) {
-          console.error('Error snoozing reminder:', error);
+          console.error('Error answering reminder:', error);
         }
       });
+    });
+  }
+
+  private async answerReminder(reminderId: string, action: ReminderAction): Promise<void> {
+    switch (action) {
+      case 'done':
+        await send('COMPLETE_REMINDER', { reminderId });
+        break;
+      case 'snooze5':
+        await send('SNOOZE_REMINDER', { reminderId, snoozeMinutes: 5 });
+        break;
+      case 'snooze15':
+        await send('SNOOZE_REMINDER', { reminderId, snoozeMinutes: 15 });
+        break;
+      case 'skip':
+        await send('SKIP_REMINDER', { reminderId });
+        break;
+    }
+  }
+
+  public generateAIResponse(): void {
+    if (this.petEngine) {
+      this.petEngine.generateAIResponse();
+    }
+  }
+
+  // Hold a reaction animation (e.g. worried on the focus guard); null goes back to the Pomodoro one
+  public holdReaction(animation: PetAnimation | null): void {
+    if (this.petEngine) {
+      this.petEngine.holdAnimation(animation ?? this.pomodoroHold());
     }
   }
 
   // Public methods for external control
   public setPetPosition(position: Position): void {
     if (this.petEngine) {
-      this.petEngine.setPosition(position);
+      const clamped = clampToViewport(position, this.getViewport());
+      this.petEngine.setPosition(clamped);
+      this.savePlacement(clamped);
     }
   }
 
@@ -587,6 +849,9 @@ class PetOverlay {
   // Reload pet state from storage (for sync with popup)
   public async reloadPetState(): Promise<void> {
     await this.loadPetState();
+    if (this.petState && this.getStage() !== this.spriteStage) {
+      await this.loadSprites();
+    }
     
     if (this.petEngine && this.petState) {
       // Validate pet state after reloading
@@ -604,10 +869,14 @@ class PetOverlay {
       // Update last interaction when reloading pet state
       this.petState.lastInteraction = Date.now();
       this.petEngine = new PetEngine(this.petState);
+      this.petEngine.holdAnimation(this.pomodoroHold());
     }
   }
 
   public destroy(): void {
+    this.destroyed = true;
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
     if (this.animationFrame) {
       cancelAnimationFrame(this.animationFrame);
     }
@@ -620,14 +889,54 @@ class PetOverlay {
   }
 }
 
-// Initialize the overlay when the content script loads
-const overlay = new PetOverlay();
-(window as any).focusPetOverlay = overlay;
+// The overlay only exists on pages the user's overlay rules allow; it is torn down and
+// rebuilt whenever the rules or the page's fullscreen state change.
+let overlay: PetOverlay | null = null;
+let overlaySettings: OverlaySettings = DEFAULT_OVERLAY_SETTINGS;
+
+function applyOverlayRules(): void {
+  const allowed = isOverlayAllowed(location.href, overlaySettings, !!document.fullscreenElement);
+  if (allowed && !overlay) {
+    overlay = new PetOverlay();
+  } else if (!allowed && overlay) {
+    overlay.destroy();
+    overlay = null;
+  }
+  (window as any).focusPetOverlay = overlay;
+}
+
+// Messages are handled here rather than per overlay so they still arrive while the pet is hidden
+new MessageRouter<ContentMessages>()
+  .on('REMINDER_TRIGGERED', ({ reminder }) => overlay?.handleReminder(reminder))
+  .on('SHOW_FOCUS_GUARD', async ({ prompt }) => {
+    const shown = showFocusGuard(prompt, await storageManager.getPetState(), () => overlay?.holdReaction(null));
+    if (shown) {
+      overlay?.holdReaction(prompt.petAnimation);
+    }
+    return shown;
+  })
+  .on('TRIGGER_AI_RESPONSE', () => overlay?.generateAIResponse())
+  .listen();
+
+eventBus.on('settings:updated', ({ settings }) => {
+  overlaySettings = { ...DEFAULT_OVERLAY_SETTINGS, ...settings.overlay };
+  applyOverlayRules();
+});
+document.addEventListener('fullscreenchange', applyOverlayRules);
+
+storageManager.getUserSettings()
+  .then(settings => {
+    overlaySettings = { ...DEFAULT_OVERLAY_SETTINGS, ...settings?.overlay };
+  })
+  .catch(error => console.error('focusPet: Error loading overlay settings:', error))
+  .finally(applyOverlayRules);
 
-// MutationObserver to re-inject overlay if removed
+// MutationObserver to re-inject overlay if the page removed it
 const observer = new MutationObserver(() => {
-  if (!document.getElementById('focuspet-overlay')) {
-    (window as any).focusPetOverlay = new PetOverlay();
+  if (overlay && !document.getElementById('focuspet-overlay')) {
+    overlay.destroy();
+    overlay = new PetOverlay();
+    (window as any).focusPetOverlay = overlay;
   }
 });
 observer.observe(document.body, { childList: true, subtree: true });
@@ -0,0 +1,264 @@
+import React, { useRef, useState } from 'react';
+import { ActivityType, ClassificationDepth, DomainRule, DomainRuleMatch, FocusLevel } from '@shared/types';
+import {
+  ACTIVITY_TYPES,
+  DOMAIN_RULE_MATCHES,
+  FOCUS_LEVEL_OPTIONS,
+  classifyUrl,
+  createDomainRuleId,
+  exportDomainRules,
+  importDomainRules,
+  validateDomainRule,
+  validateSiteDomain,
+  validateSitePattern,
+} from '@shared/analytics/domain-rules';
+
+const matchLabels: Record<DomainRuleMatch, string> = {
+  exact: 'Exact host',
+  suffix: 'Site and subdomains',
+  wildcard: 'Wildcard host',
+  pathPrefix: 'Host and path',
+  regex: 'Regular expression',
+};
+
+const matchPlaceholders: Record<DomainRuleMatch, string> = {
+  exact: 'docs.example.com',
+  suffix: 'example.com',
+  wildcard: '*.example.com',
+  pathPrefix: 'github.com/notifications',
+  regex: '^(www\\.)?youtube\\.com/watch',
+};
+
+const depthLabels: Record<ClassificationDepth, string> = {
+  domain: 'Site only',
+  path: 'Site and path',
+  title: 'Site, path and title',
+};
+
+interface DomainRulesEditorProps {
+  rules: DomainRule[];
+  onChange: (rules: DomainRule[]) => void;
+}
+
+export const DomainRulesEditor: React.FC<DomainRulesEditorProps> = ({ rules, onChange }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const [testUrl, setTestUrl] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateRule = (id: string, changes: Partial<DomainRule>) =>
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const addRule = () =>
+    onChange([
+      ...rules,
+      { id: createDomainRuleId(), match: 'suffix', pattern: '', activityType: 'work', priority: 0, enabled: true },
+    ]);
+
+  const exportRules = () => {
+    const blob = new Blob([exportDomainRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'focuspet-site-rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported rules are appended to the draft; nothing is stored until Save
+  const importRules = async (file: File) => {
+    try {
+      onChange([...rules, ...importDomainRules(await file.text())]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import the file.');
+    }
+  };
+
+  const testResult = (() => {
+    if (!testUrl.trim()) return null;
+    const url = /^https?:\/\//.test(testUrl) ? testUrl : `https://${testUrl}`;
+    const result = classifyUrl(url, rules);
+    const rule = rules.find(r => r.id === result.ruleId);
+    const source = rule ? `your rule for ${rule.pattern}` : 'the built-in list';
+    return `${result.activityType}, ${result.focusLevel} focus (from ${source})`;
+  })();
+
+  return (
+    <>
+      {rules.length === 0 && <p className="setting-hint">No rules yet; sites are sorted using the built-in list.</p>}
+      {rules.map(rule => {
+        const error = validateDomainRule(rule);
+        return (
+          <div key={rule.id} className={`rule-row ${rule.enabled ? '' : 'paused'}`}>
+            <div className="rule-fields">
+              <input
+                type="checkbox"
+                title="Enabled"
+                checked={rule.enabled}
+                onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              />
+              <select value={rule.match} onChange={e => updateRule(rule.id, { match: e.target.value as DomainRuleMatch })}>
+                {DOMAIN_RULE_MATCHES.map(match => (
+                  <option key={match} value={match}>{matchLabels[match]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={rule.pattern}
+                placeholder={matchPlaceholders[rule.match]}
+                onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+              />
+              <select
+                value={rule.activityType}
+                onChange={e => updateRule(rule.id, { activityType: e.target.value as ActivityType })}
+              >
+                {ACTIVITY_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <select
+                value={rule.focusLevel ?? ''}
+                onChange={e => updateRule(rule.id, { focusLevel: (e.target.value || undefined) as FocusLevel | undefined })}
+              >
+                <option value="">default focus</option>
+                {FOCUS_LEVEL_OPTIONS.map(level => (
+                  <option key={level} value={level}>{level} focus</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                title="Priority"
+                value={rule.priority}
+                onChange={e => updateRule(rule.id, { priority: Number(e.target.value) })}
+              />
+              <button className="delete-button" onClick={() => onChange(rules.filter(r => r.id !== rule.id))}>
+                Delete
+              </button>
+            </div>
+            {error && <p className="field-error">{error}</p>}
+          </div>
+        );
+      })}
+
+      <div className="rule-actions">
+        <button onClick={addRule}>Add Rule</button>
+        <button onClick={exportRules} disabled={rules.length === 0}>Export</button>
+        <button onClick={() => fileInput.current?.click()}>Import</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importRules(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {importError && <p className="field-error">{importError}</p>}
+
+      <div className="setting-item">
+        <label>Test a URL</label>
+        <div>
+          <input type="text" value={testUrl} placeholder="github.com/notifications" onChange={e => setTestUrl(e.target.value)} />
+          {testResult && <p className="setting-hint">{testResult}</p>}
+        </div>
+      </div>
+    </>
+  );
+};
+
+interface DepthOverridesEditorProps {
+  overrides: Record<string, ClassificationDepth>;
+  onChange: (overrides: Record<string, ClassificationDepth>) => void;
+}
+
+export const DepthOverridesEditor: React.FC<DepthOverridesEditorProps> = ({ overrides, onChange }) => {
+  const [domain, setDomain] = useState('');
+  const [depth, setDepth] = useState<ClassificationDepth>('domain');
+  const [error, setError] = useState<string | null>(null);
+
+  const addOverride = () => {
+    const normalized = domain.trim().toLowerCase();
+    const problem = validateSiteDomain(normalized);
+    setError(problem);
+    if (problem) return;
+
+    onChange({ ...overrides, [normalized]: depth });
+    setDomain('');
+  };
+
+  const removeOverride = (key: string) => {
+    onChange(Object.fromEntries(Object.entries(overrides).filter(([site]) => site !== key)));
+  };
+
+  return (
+    <>
+      {Object.entries(overrides).map(([key, value]) => (
+        <div key={key} className="rule-row">
+          <div className="rule-fields">
+            <span className="rule-domain">{key}</span>
+            <select value={value} onChange={e => onChange({ ...overrides, [key]: e.target.value as ClassificationDepth })}>
+              {Object.entries(depthLabels).map(([option, label]) => (
+                <option key={option} value={option}>{label}</option>
+              ))}
+            </select>
+            <button className="delete-button" onClick={() => removeOverride(key)}>Remove</button>
+          </div>
+        </div>
+      ))}
+      <div className="rule-fields rule-actions">
+        <input type="text" value={domain} placeholder="youtube.com" onChange={e => setDomain(e.target.value)} />
+        <select value={depth} onChange={e => setDepth(e.target.value as ClassificationDepth)}>
+          {Object.entries(depthLabels).map(([option, label]) => (
+            <option key={option} value={option}>{label}</option>
+          ))}
+        </select>
+        <button onClick={addOverride}>Add Site</button>
+      </div>
+      {error && <p className="field-error">{error}</p>}
+    </>
+  );
+};
+
+interface DomainListEditorProps {
+  domains: string[];
+  placeholder: string;
+  onChange: (domains: string[]) => void;
+}
+
+export const DomainListEditor: React.FC<DomainListEditorProps> = ({ domains, placeholder, onChange }) => {
+  const [domain, setDomain] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addDomain = () => {
+    const normalized = domain.trim().toLowerCase().replace(/^www\./, '');
+    const problem = validateSitePattern(normalized);
+    setError(problem);
+    if (problem) return;
+
+    if (!domains.includes(normalized)) {
+      onChange([...domains, normalized]);
+    }
+    setDomain('');
+  };
+
+  return (
+    <>
+      {domains.map(entry => (
+        <div key={entry} className="rule-row">
+          <div className="rule-fields">
+            <span className="rule-domain">{entry}</span>
+            <button className="delete-button" onClick={() => onChange(domains.filter(d => d !== entry))}>Remove</button>
+          </div>
+        </div>
+      ))}
+      <div className="rule-fields rule-actions">
+        <input type="text" value={domain} placeholder={placeholder} onChange={e => setDomain(e.target.value)} />
+        <button onClick={addDomain}>Add Site</button>
+      </div>
+      {error && <p className="field-error">{error}</p>}
+    </>
+  );
+};
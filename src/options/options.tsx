@@ -1,23 +1,682 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
+import {
+  ActivityType,
+  DoNotDisturbSettings,
+  FocusGuardSettings,
+  OverlaySettings,
+  PageClassificationSettings,
+  PetType,
+  PomodoroSettings,
+  QuietHours,
+  TitleStorage,
+  UserSettings,
+} from '@shared/types';
+import { send } from '@shared/messaging';
+import { eventBus } from '@shared/events/event-bus';
+import { DEFAULT_POMODORO_SETTINGS } from '@shared/pomodoro/pomodoro-manager';
+import { DEFAULT_DND_SETTINGS, MEETING_DOMAINS } from '@shared/dnd/dnd-manager';
+import { ACTIVITY_TYPES, validateDomainRule } from '@shared/analytics/domain-rules';
+import { DEFAULT_PAGE_CLASSIFICATION } from '@shared/analytics/page-classifier';
+import { DEFAULT_FOCUS_GUARD_SETTINGS, FOCUS_GUARD_GRACE_MINUTES, FOCUS_GUARD_TREAT_COST } from '@shared/focus/focus-guard';
+import { DEFAULT_OVERLAY_SETTINGS } from '@shared/overlay/overlay-rules';
+import { PET_NAME_MAX_LENGTH } from '@shared/pet/roster-manager';
+import { RemindersView } from './reminders-view';
+import { DepthOverridesEditor, DomainListEditor, DomainRulesEditor } from './domain-rules-editor';
 
-const petTypes = ['cat', 'dog', 'dragon', 'penguin', 'bunny'];
+const isExtension = typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+
+const petTypes: PetType[] = ['cat', 'dog', 'dragon', 'penguin', 'bunny'];
+const petPositions: UserSettings['petPosition'][] = ['bottom-right', 'bottom-left', 'top-right', 'top-left', 'center'];
+const themes: UserSettings['theme'][] = ['auto', 'light', 'dark'];
+const rememberPositionLabels: Record<NonNullable<OverlaySettings['rememberPosition']>, string> = {
+  global: 'Same spot everywhere',
+  site: 'Separate spot per site',
+};
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const titleStorageLabels: Record<TitleStorage, string> = {
+  none: "Don't keep titles",
+  hashed: 'Keep a hash only',
+  redacted: 'Keep matched keywords only',
+  raw: 'Keep full titles',
+};
+
+// Allowed ranges for numeric settings
+const LIMITS = {
+  trackingInterval: { min: 1, max: 120 }, // minutes
+  treatRewardInterval: { min: 1, max: 480 }, // minutes
+  streakMinimumMinutes: { min: 1, max: 600 }, // minutes
+  idleThresholdSeconds: { min: 15, max: 3600 }, // seconds
+  dataRetentionDays: { min: 1, max: 365 }, // days
+  workMinutes: { min: 1, max: 120 }, // minutes
+  shortBreakMinutes: { min: 1, max: 60 }, // minutes
+  longBreakMinutes: { min: 1, max: 120 }, // minutes
+  cyclesBeforeLongBreak: { min: 1, max: 12 }, // work phases
+  petNameLength: { max: PET_NAME_MAX_LENGTH },
+};
+
+type NumericSetting = keyof Omit<typeof LIMITS, 'petNameLength'>;
+
+function spriteUrl(petType: PetType): string {
+  const path = `assets/pets/${petType}/idle.png`;
+  return isExtension ? chrome.runtime.getURL(path) : `/${path}`;
+}
+
+function outOfRange(value: number | undefined, setting: NumericSetting): boolean {
+  const { min, max } = LIMITS[setting];
+  return value === undefined || !Number.isFinite(value) || value < min || value > max;
+}
+
+// Returns one message per invalid field, keyed by field name
+function validateSettings(settings: UserSettings): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const rangeMessage = (setting: NumericSetting, unit: string) =>
+    `Must be between ${LIMITS[setting].min} and ${LIMITS[setting].max} ${unit}.`;
+
+  if (!settings.petName.trim()) {
+    errors.petName = 'Your pet needs a name.';
+  } else if (settings.petName.length > LIMITS.petNameLength.max) {
+    errors.petName = `Keep it under ${LIMITS.petNameLength.max} characters.`;
+  }
+
+  const { focusTracking, analytics } = settings;
+  if (outOfRange(focusTracking.trackingInterval, 'trackingInterval')) {
+    errors.trackingInterval = rangeMessage('trackingInterval', 'minutes');
+  }
+  if (outOfRange(focusTracking.treatRewardInterval, 'treatRewardInterval')) {
+    errors.treatRewardInterval = rangeMessage('treatRewardInterval', 'minutes');
+  }
+  if (outOfRange(focusTracking.streakMinimumMinutes, 'streakMinimumMinutes')) {
+    errors.streakMinimumMinutes = rangeMessage('streakMinimumMinutes', 'minutes');
+  }
+  if (outOfRange(focusTracking.idleThresholdSeconds, 'idleThresholdSeconds')) {
+    errors.idleThresholdSeconds = rangeMessage('idleThresholdSeconds', 'seconds');
+  }
+  if (!focusTracking.countedActivityTypes?.length) {
+    errors.countedActivityTypes = 'Pick at least one kind of site that counts as focus.';
+  }
+  if (outOfRange(analytics.dataRetentionDays, 'dataRetentionDays')) {
+    errors.dataRetentionDays = rangeMessage('dataRetentionDays', 'days');
+  }
+
+  const pomodoro = { ...DEFAULT_POMODORO_SETTINGS, ...settings.pomodoro };
+  for (const setting of ['workMinutes', 'shortBreakMinutes', 'longBreakMinutes'] as const) {
+    if (outOfRange(pomodoro[setting], setting)) {
+      errors[setting] = rangeMessage(setting, 'minutes');
+    }
+  }
+  if (outOfRange(pomodoro.cyclesBeforeLongBreak, 'cyclesBeforeLongBreak')) {
+    errors.cyclesBeforeLongBreak = rangeMessage('cyclesBeforeLongBreak', 'cycles');
+  }
+
+  const quietHours = settings.doNotDisturb?.quietHours;
+  if (quietHours?.enabled) {
+    if (quietHours.start === quietHours.end) {
+      errors.quietHours = 'Quiet hours must start and end at different times.';
+    } else if (quietHours.days.length === 0) {
+      errors.quietHours = 'Pick at least one day.';
+    }
+  }
+
+  const focusGuard = settings.focusGuard;
+  if (focusGuard?.enabled && focusGuard.blockedActivityTypes.length === 0) {
+    errors.blockedActivityTypes = 'Pick at least one kind of site to guard against.';
+  }
+
+  if (settings.domainRules?.some(rule => validateDomainRule(rule) !== null)) {
+    errors.domainRules = 'Fix or delete the highlighted site rules.';
+  }
+
+  return errors;
+}
+
+interface NumberFieldProps {
+  label: string;
+  setting: NumericSetting;
+  value: number | undefined;
+  unit: string;
+  error?: string;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, setting, value, unit, error, onChange }) => (
+  <div className="setting-item">
+    <label>{label}</label>
+    <div>
+      <input
+        type="number"
+        min={LIMITS[setting].min}
+        max={LIMITS[setting].max}
+        value={value ?? ''}
+        onChange={e => onChange(Number(e.target.value))}
+      />{' '}
+      {unit}
+      {error && <p className="field-error">{error}</p>}
+    </div>
+  </div>
+);
+
+interface ToggleFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const ToggleField: React.FC<ToggleFieldProps> = ({ label, checked, onChange }) => (
+  <div className="setting-item">
+    <label>{label}</label>
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} />
+  </div>
+);
+
+const SettingsView: React.FC = () => {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setSettings(await send('GET_USER_SETTINGS'));
+      setDirty(false);
+    } catch (error) {
+      console.error('Options: Error loading settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Pick up changes saved from the popup unless the user is mid-edit
+  useEffect(() => {
+    return eventBus.on('settings:updated', ({ settings: updated }) => {
+      if (!dirty) {
+        setSettings(updated);
+      }
+    });
+  }, [dirty]);
+
+  if (!settings) {
+    return <section>Loading...</section>;
+  }
+
+  const errors = validateSettings(settings);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const update = (changes: Partial<UserSettings>) => {
+    setSettings({ ...settings, ...changes });
+    setDirty(true);
+  };
+  const updateReminderDefaults = (changes: Partial<UserSettings['reminderDefaults']>) =>
+    update({ reminderDefaults: { ...settings.reminderDefaults, ...changes } });
+  const updateFocusTracking = (changes: Partial<UserSettings['focusTracking']>) =>
+    update({ focusTracking: { ...settings.focusTracking, ...changes } });
+  const updateAnalytics = (changes: Partial<UserSettings['analytics']>) =>
+    update({ analytics: { ...settings.analytics, ...changes } });
+  const pomodoro = { ...DEFAULT_POMODORO_SETTINGS, ...settings.pomodoro };
+  const updatePomodoro = (changes: Partial<PomodoroSettings>) => update({ pomodoro: { ...pomodoro, ...changes } });
+  const doNotDisturb = { ...DEFAULT_DND_SETTINGS, ...settings.doNotDisturb };
+  const updateDoNotDisturb = (changes: Partial<DoNotDisturbSettings>) =>
+    update({ doNotDisturb: { ...doNotDisturb, ...changes } });
+  const updateQuietHours = (changes: Partial<QuietHours>) =>
+    updateDoNotDisturb({ quietHours: { ...doNotDisturb.quietHours, ...changes } });
+  const toggleQuietDay = (day: number, selected: boolean) => {
+    const days = doNotDisturb.quietHours.days;
+    updateQuietHours({ days: selected ? [...days, day].sort((a, b) => a - b) : days.filter(d => d !== day) });
+  };
+
+  const pageClassification = { ...DEFAULT_PAGE_CLASSIFICATION, ...settings.pageClassification };
+  const updatePageClassification = (changes: Partial<PageClassificationSettings>) =>
+    update({ pageClassification: { ...pageClassification, ...changes } });
+
+  const overlay = { ...DEFAULT_OVERLAY_SETTINGS, ...settings.overlay };
+  const updateOverlay = (changes: Partial<OverlaySettings>) => update({ overlay: { ...overlay, ...changes } });
+
+  const focusGuard = { ...DEFAULT_FOCUS_GUARD_SETTINGS, ...settings.focusGuard };
+  const updateFocusGuard = (changes: Partial<FocusGuardSettings>) => update({ focusGuard: { ...focusGuard, ...changes } });
+  const toggleBlockedType = (type: ActivityType, blocked: boolean) =>
+    updateFocusGuard({
+      blockedActivityTypes: blocked
+        ? [...focusGuard.blockedActivityTypes, type]
+        : focusGuard.blockedActivityTypes.filter(t => t !== type),
+    });
+
+  const countedTypes = settings.focusTracking.countedActivityTypes ?? [];
+  const toggleCountedType = (type: ActivityType, counted: boolean) =>
+    updateFocusTracking({
+      countedActivityTypes: counted ? [...countedTypes, type] : countedTypes.filter(t => t !== type),
+    });
+
+  const saveSettings = async () => {
+    if (hasErrors) return;
+
+    setSaving(true);
+    setSaveStatus('idle');
+
+    try {
+      const updatedSettings = { ...settings, petName: settings.petName.trim() };
+      // The background broadcasts the change so open tabs update without a reload
+      await send('UPDATE_USER_SETTINGS', { data: updatedSettings });
+      setSettings(updatedSettings);
+      setDirty(false);
+      setSaveStatus('success');
+
+      // Reset success message after 2 seconds
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (error) {
+      console.error('Options: Error saving settings:', error);
+      setSaveStatus('error');
+
+      // Reset error message after 3 seconds
+      setTimeout(() => setSaveStatus('idle'), 3000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <section>
+        <h2>Pet</h2>
+        <div className="pet-preview">
+          <img src={spriteUrl(settings.petType)} alt={settings.petType} />
+          <span>{settings.petName || 'Unnamed'} the {settings.petType}</span>
+        </div>
+        <div className="setting-item">
+          <label>Pet Type</label>
+          <select value={settings.petType} onChange={e => update({ petType: e.target.value as PetType })}>
+            {petTypes.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <p className="setting-hint">
+          Picking another type brings out your pet of that type, or adopts a new one. Each pet keeps its own level,
+          stats and accessories; manage them all from the popup.
+        </p>
+        <div className="setting-item">
+          <label>Pet Name</label>
+          <div>
+            <input type="text" value={settings.petName} onChange={e => update({ petName: e.target.value })} />
+            {errors.petName && <p className="field-error">{errors.petName}</p>}
+          </div>
+        </div>
+        <div className="setting-item">
+          <label>Position</label>
+          <select
+            value={settings.petPosition}
+            onChange={e => update({ petPosition: e.target.value as UserSettings['petPosition'] })}
+          >
+            {petPositions.map(position => (
+              <option key={position} value={position}>{position}</option>
+            ))}
+          </select>
+        </div>
+        <p className="setting-hint">
+          You can also drag your pet anywhere on a page. Choosing a new position here forgets where it was dragged to.
+        </p>
+      </section>
+
+      <section>
+        <h2>Appearance & Sound</h2>
+        <div className="setting-item">
+          <label>Theme</label>
+          <select value={settings.theme} onChange={e => update({ theme: e.target.value as UserSettings['theme'] })}>
+            {themes.map(theme => (
+              <option key={theme} value={theme}>{theme}</option>
+            ))}
+          </select>
+        </div>
+        <ToggleField label="Sound Enabled" checked={settings.soundEnabled} onChange={soundEnabled => update({ soundEnabled })} />
+        <ToggleField
+          label="Visual Effects"
+          checked={settings.visualEffectsEnabled}
+          onChange={visualEffectsEnabled => update({ visualEffectsEnabled })}
+        />
+      </section>
+
+      <section>
+        <h2>Pet Overlay</h2>
+        <ToggleField label="Hide Everywhere" checked={overlay.hidden} onChange={hidden => updateOverlay({ hidden })} />
+        <ToggleField
+          label="Hide in Fullscreen"
+          checked={overlay.hideInFullscreen}
+          onChange={hideInFullscreen => updateOverlay({ hideInFullscreen })}
+        />
+        <div className="setting-item">
+          <label>Remember Dragged Position</label>
+          <select
+            value={overlay.rememberPosition}
+            onChange={e => updateOverlay({ rememberPosition: e.target.value as OverlaySettings['rememberPosition'] })}
+          >
+            {Object.entries(rememberPositionLabels).map(([scope, label]) => (
+              <option key={scope} value={scope}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <p className="setting-hint">Never show your pet on these sites. Use * for patterns such as *.bank.com.</p>
+        <DomainListEditor
+          domains={overlay.hiddenSites}
+          placeholder="docs.google.com"
+          onChange={hiddenSites => updateOverlay({ hiddenSites })}
+        />
+        <p className="setting-hint">Only show your pet on these sites. Leave empty to show it everywhere else.</p>
+        <DomainListEditor
+          domains={overlay.onlyOnSites}
+          placeholder="github.com"
+          onChange={onlyOnSites => updateOverlay({ onlyOnSites })}
+        />
+      </section>
+
+      <section>
+        <h2>Reminder Defaults</h2>
+        <ToggleField
+          label="Play Sound"
+          checked={settings.reminderDefaults.soundEnabled}
+          onChange={soundEnabled => updateReminderDefaults({ soundEnabled })}
+        />
+        <ToggleField
+          label="Show Visual Alert"
+          checked={settings.reminderDefaults.visualEnabled}
+          onChange={visualEnabled => updateReminderDefaults({ visualEnabled })}
+        />
+        <ToggleField
+          label="System Notifications"
+          checked={settings.reminderDefaults.systemNotifications}
+          onChange={systemNotifications => updateReminderDefaults({ systemNotifications })}
+        />
+      </section>
+
+      <section>
+        <h2>Do Not Disturb</h2>
+        <ToggleField
+          label="Quiet Hours"
+          checked={doNotDisturb.quietHours.enabled}
+          onChange={enabled => updateQuietHours({ enabled })}
+        />
+        {doNotDisturb.quietHours.enabled && (
+          <>
+            <div className="setting-item">
+              <label>From</label>
+              <div>
+                <input type="time" value={doNotDisturb.quietHours.start} onChange={e => updateQuietHours({ start: e.target.value })} /> to{' '}
+                <input type="time" value={doNotDisturb.quietHours.end} onChange={e => updateQuietHours({ end: e.target.value })} />
+              </div>
+            </div>
+            <div className="setting-item">
+              <label>Starting On</label>
+              <div>
+                <div className="checkbox-group">
+                  {dayNames.map((name, day) => (
+                    <label key={name}>
+                      <input
+                        type="checkbox"
+                        checked={doNotDisturb.quietHours.days.includes(day)}
+                        onChange={e => toggleQuietDay(day, e.target.checked)}
+                      />
+                      {name}
+                    </label>
+                  ))}
+                </div>
+                {errors.quietHours && <p className="field-error">{errors.quietHours}</p>}
+              </div>
+            </div>
+          </>
+        )}
+        <ToggleField
+          label="Hold During Meetings"
+          checked={doNotDisturb.suppressDuringMeetings}
+          onChange={suppressDuringMeetings => updateDoNotDisturb({ suppressDuringMeetings })}
+        />
+        <p className="setting-hint">
+          Reminders are held while {MEETING_DOMAINS.join(', ')} is the active tab. Anything held back arrives as one
+          digest notification once you're free.
+        </p>
+      </section>
+
+      <section>
+        <h2>Focus Tracking</h2>
+        <ToggleField
+          label="Tracking Enabled"
+          checked={settings.focusTracking.enabled}
+          onChange={enabled => updateFocusTracking({ enabled })}
+        />
+        <NumberField
+          label="Tracking Interval"
+          setting="trackingInterval"
+          value={settings.focusTracking.trackingInterval}
+          unit="minutes"
+          error={errors.trackingInterval}
+          onChange={trackingInterval => updateFocusTracking({ trackingInterval })}
+        />
+        <NumberField
+          label="Treat Reward Interval"
+          setting="treatRewardInterval"
+          value={settings.focusTracking.treatRewardInterval}
+          unit="minutes"
+          error={errors.treatRewardInterval}
+          onChange={treatRewardInterval => updateFocusTracking({ treatRewardInterval })}
+        />
+        <NumberField
+          label="Daily Streak Minimum"
+          setting="streakMinimumMinutes"
+          value={settings.focusTracking.streakMinimumMinutes}
+          unit="minutes"
+          error={errors.streakMinimumMinutes}
+          onChange={streakMinimumMinutes => updateFocusTracking({ streakMinimumMinutes })}
+        />
+        <NumberField
+          label="Idle Threshold"
+          setting="idleThresholdSeconds"
+          value={settings.focusTracking.idleThresholdSeconds}
+          unit="seconds"
+          error={errors.idleThresholdSeconds}
+          onChange={idleThresholdSeconds => updateFocusTracking({ idleThresholdSeconds })}
+        />
+        <div className="setting-item">
+          <label>Counts as Focus</label>
+          <div>
+            <div className="checkbox-group">
+              {ACTIVITY_TYPES.map(type => (
+                <label key={type}>
+                  <input
+                    type="checkbox"
+                    checked={countedTypes.includes(type)}
+                    onChange={e => toggleCountedType(type, e.target.checked)}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+            {errors.countedActivityTypes && <p className="field-error">{errors.countedActivityTypes}</p>}
+          </div>
+        </div>
+      </section>
+
+      <section>
+        <h2>Focus Guard</h2>
+        <ToggleField label="Guard Focus Time" checked={focusGuard.enabled} onChange={enabled => updateFocusGuard({ enabled })} />
+        <div className="setting-item">
+          <label>Interrupt</label>
+          <div>
+            <div className="checkbox-group">
+              {ACTIVITY_TYPES.map(type => (
+                <label key={type}>
+                  <input
+                    type="checkbox"
+                    checked={focusGuard.blockedActivityTypes.includes(type)}
+                    onChange={e => toggleBlockedType(type, e.target.checked)}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+            {errors.blockedActivityTypes && <p className="field-error">{errors.blockedActivityTypes}</p>}
+          </div>
+        </div>
+        <p className="setting-hint">
+          During a focus session or Pomodoro work round, your pet steps in when you open one of these kinds of site.
+          You can head back, buy {FOCUS_GUARD_GRACE_MINUTES} more minutes for {FOCUS_GUARD_TREAT_COST} treat, or allow the
+          site for good. Allowed sites:
+        </p>
+        <DomainListEditor
+          domains={focusGuard.allowedDomains}
+          placeholder="youtube.com"
+          onChange={allowedDomains => updateFocusGuard({ allowedDomains })}
+        />
+      </section>
+
+      <section>
+        <h2>Site Categories</h2>
+        <p className="setting-hint">
+          Your rules run before the built-in list, highest priority first. "Site and subdomains" for example.com also
+          covers mail.example.com but not example.com.au.
+        </p>
+        <DomainRulesEditor rules={settings.domainRules ?? []} onChange={domainRules => update({ domainRules })} />
+
+        <h3>Pages</h3>
+        <ToggleField
+          label="Use Page Paths & Titles"
+          checked={pageClassification.enabled}
+          onChange={enabled => updatePageClassification({ enabled })}
+        />
+        <div className="setting-item">
+          <label>Page Titles in History</label>
+          <select
+            value={pageClassification.titleStorage}
+            onChange={e => updatePageClassification({ titleStorage: e.target.value as TitleStorage })}
+          >
+            {Object.entries(titleStorageLabels).map(([storage, label]) => (
+              <option key={storage} value={storage}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <p className="setting-hint">
+          Paths and titles are read on this device only. Titles are kept only for sites whose depth includes
+          the title, and only in the form chosen above. Per-site depth overrides the switch above.
+        </p>
+        <DepthOverridesEditor
+          overrides={pageClassification.domainDepth}
+          onChange={domainDepth => updatePageClassification({ domainDepth })}
+        />
+      </section>
+
+      <section>
+        <h2>Pomodoro</h2>
+        <NumberField
+          label="Work"
+          setting="workMinutes"
+          value={pomodoro.workMinutes}
+          unit="minutes"
+          error={errors.workMinutes}
+          onChange={workMinutes => updatePomodoro({ workMinutes })}
+        />
+        <NumberField
+          label="Short Break"
+          setting="shortBreakMinutes"
+          value={pomodoro.shortBreakMinutes}
+          unit="minutes"
+          error={errors.shortBreakMinutes}
+          onChange={shortBreakMinutes => updatePomodoro({ shortBreakMinutes })}
+        />
+        <NumberField
+          label="Long Break"
+          setting="longBreakMinutes"
+          value={pomodoro.longBreakMinutes}
+          unit="minutes"
+          error={errors.longBreakMinutes}
+          onChange={longBreakMinutes => updatePomodoro({ longBreakMinutes })}
+        />
+        <NumberField
+          label="Long Break After"
+          setting="cyclesBeforeLongBreak"
+          value={pomodoro.cyclesBeforeLongBreak}
+          unit="cycles"
+          error={errors.cyclesBeforeLongBreak}
+          onChange={cyclesBeforeLongBreak => updatePomodoro({ cyclesBeforeLongBreak })}
+        />
+        <ToggleField
+          label="Auto-start Breaks"
+          checked={pomodoro.autoStartBreaks}
+          onChange={autoStartBreaks => updatePomodoro({ autoStartBreaks })}
+        />
+        <ToggleField
+          label="Auto-start Work"
+          checked={pomodoro.autoStartWork}
+          onChange={autoStartWork => updatePomodoro({ autoStartWork })}
+        />
+      </section>
+
+      <section>
+        <h2>Analytics & Stories</h2>
+        <ToggleField label="Analytics Enabled" checked={settings.analytics.enabled} onChange={enabled => updateAnalytics({ enabled })} />
+        <ToggleField
+          label="Track Domains"
+          checked={settings.analytics.trackDomains}
+          onChange={trackDomains => updateAnalytics({ trackDomains })}
+        />
+        <ToggleField
+          label="Track Focus Time"
+          checked={settings.analytics.trackFocusTime}
+          onChange={trackFocusTime => updateAnalytics({ trackFocusTime })}
+        />
+        <ToggleField
+          label="Track Pet Interactions"
+          checked={settings.analytics.trackPetInteractions}
+          onChange={trackPetInteractions => updateAnalytics({ trackPetInteractions })}
+        />
+        <ToggleField
+          label="Bedtime Stories"
+          checked={settings.analytics.storyGeneration}
+          onChange={storyGeneration => updateAnalytics({ storyGeneration })}
+        />
+        <NumberField
+          label="Keep Data For"
+          setting="dataRetentionDays"
+          value={settings.analytics.dataRetentionDays}
+          unit="days"
+          error={errors.dataRetentionDays}
+          onChange={dataRetentionDays => updateAnalytics({ dataRetentionDays })}
+        />
+      </section>
+
+      <div className="settings-actions">
+        <button onClick={saveSettings} disabled={saving || hasErrors || !dirty} className="save-button">
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+        <button onClick={loadSettings} disabled={saving || !dirty} className="reset-button">
+          Discard Changes
+        </button>
+
+        {saveStatus === 'success' && <span className="save-status success">✓ Settings saved and applied to open tabs</span>}
+        {saveStatus === 'error' && <span className="save-status error">✗ Failed to save settings</span>}
+      </div>
+    </>
+  );
+};
 
 const Options: React.FC = () => {
-  const [petType, setPetType] = useState('cat');
+  const [view, setView] = useState<'settings' | 'reminders'>('settings');
+
+  if (!isExtension) {
+    return <div className="options-container">Load focusPet as an extension to edit its settings.</div>;
+  }
 
   return (
-    <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
-      <h1>focusPet Options</h1>
-      <label>
-        Choose your pet:
-        <select value={petType} onChange={e => setPetType(e.target.value)}>
-          {petTypes.map(type => (
-            <option key={type} value={type}>{type}</option>
-          ))}
-        </select>
-      </label>
-      <p>Selected pet: <b>{petType}</b></p>
+    <div className="options-container">
+      <h1>focusPet Options 🐾</h1>
+      <div className="tab-buttons">
+        <button className={view === 'settings' ? 'active' : ''} onClick={() => setView('settings')}>
+          Settings
+        </button>
+        <button className={view === 'reminders' ? 'active' : ''} onClick={() => setView('reminders')}>
+          Reminders
+        </button>
+      </div>
+
+      {view === 'settings' ? <SettingsView /> : <RemindersView />}
     </div>
   );
 };
@@ -26,4 +685,4 @@ const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
   root.render(<Options />);
-} 
\ No newline at end of file
+}
@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MissedReminderPolicy, Reminder, ReminderFrequency, ReminderHistoryEntry, ReminderSchedule } from '@shared/types';
+import { send } from '@shared/messaging';
+import { eventBus } from '@shared/events/event-bus';
+import { describeSchedule, validateSchedule } from '@shared/reminders/schedule';
+
+const frequencies: ReminderFrequency[] = ['once', 'hourly', 'daily', 'weekly', 'custom', 'scheduled'];
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const defaultSchedules: Record<ReminderSchedule['kind'], ReminderSchedule> = {
+  times: { kind: 'times', days: [1, 2, 3, 4, 5], times: ['10:30', '15:00'] },
+  window: { kind: 'window', days: [1, 2, 3, 4, 5], everyMinutes: 45, start: '09:00', end: '18:00' },
+  cron: { kind: 'cron', expression: '0 9 * * 1-5' },
+};
+
+const actionLabels: Record<ReminderHistoryEntry['action'], string> = {
+  triggered: '⏰ Triggered',
+  completed: '✅ Done',
+  snoozed: '😴 Snoozed',
+  skipped: '⏭️ Skipped',
+  dismissed: '✋ Dismissed',
+  suppressed: '🌙 Held for digest',
+  missed: '💤 Missed while away',
+};
+
+const missedPolicyLabels: Record<MissedReminderPolicy, string> = {
+  fireOnce: 'Remind me once',
+  skip: 'Skip to the next one',
+  fireAll: 'Remind me with how many I missed',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+type ReminderDraft = Pick<Reminder, 'title' | 'message' | 'frequency' | 'interval' | 'schedule' | 'missedPolicy'>;
+
+function describeFrequency(reminder: Reminder): string {
+  if (reminder.frequency === 'scheduled' && reminder.schedule) return describeSchedule(reminder.schedule);
+  if (reminder.frequency === 'custom') return `every ${reminder.interval} min`;
+  return reminder.frequency;
+}
+
+interface ScheduleEditorProps {
+  schedule: ReminderSchedule;
+  onChange: (schedule: ReminderSchedule) => void;
+}
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onChange }) => {
+  const toggleDay = (day: number, selected: boolean) => {
+    if (schedule.kind === 'cron') return;
+    const days = selected ? [...schedule.days, day].sort((a, b) => a - b) : schedule.days.filter(d => d !== day);
+    onChange({ ...schedule, days });
+  };
+
+  return (
+    <>
+      <div className="setting-item">
+        <label>Rule</label>
+        <select value={schedule.kind} onChange={e => onChange(defaultSchedules[e.target.value as ReminderSchedule['kind']])}>
+          <option value="times">At set times</option>
+          <option value="window">Repeat within hours</option>
+          <option value="cron">Cron expression</option>
+        </select>
+      </div>
+      {schedule.kind !== 'cron' && (
+        <div className="setting-item">
+          <label>Days</label>
+          <div className="checkbox-group">
+            {dayNames.map((name, day) => (
+              <label key={name}>
+                <input type="checkbox" checked={schedule.days.includes(day)} onChange={e => toggleDay(day, e.target.checked)} />
+                {name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      {schedule.kind === 'times' && (
+        <div className="setting-item">
+          <label>Times</label>
+          <input
+            type="text"
+            placeholder="10:30, 15:00"
+            value={schedule.times.join(', ')}
+            onChange={e => onChange({ ...schedule, times: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })}
+          />
+        </div>
+      )}
+      {schedule.kind === 'window' && (
+        <div className="setting-item">
+          <label>Every</label>
+          <div>
+            <input
+              type="number"
+              min={1}
+              max={1440}
+              value={schedule.everyMinutes}
+              onChange={e => onChange({ ...schedule, everyMinutes: Number(e.target.value) })}
+            />{' '}
+            min from{' '}
+            <input type="time" value={schedule.start} onChange={e => onChange({ ...schedule, start: e.target.value })} /> to{' '}
+            <input type="time" value={schedule.end} onChange={e => onChange({ ...schedule, end: e.target.value })} />
+          </div>
+        </div>
+      )}
+      {schedule.kind === 'cron' && (
+        <div className="setting-item">
+          <label>Cron</label>
+          <input
+            type="text"
+            placeholder="minute hour day month weekday"
+            value={schedule.expression}
+            onChange={e => onChange({ ...schedule, expression: e.target.value })}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+interface ReminderEditorProps {
+  reminder: Reminder;
+  onSave: (changes: ReminderDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ReminderEditor: React.FC<ReminderEditorProps> = ({ reminder, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ReminderDraft>({
+    title: reminder.title,
+    message: reminder.message,
+    frequency: reminder.frequency,
+    interval: reminder.interval,
+    schedule: reminder.schedule,
+    missedPolicy: reminder.missedPolicy ?? 'fireOnce',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const error = !draft.title.trim()
+    ? 'Reminder title cannot be empty.'
+    : !draft.message.trim()
+      ? 'Reminder message cannot be empty.'
+      : draft.frequency === 'custom' && (!draft.interval || draft.interval < 1 || draft.interval > 1440)
+        ? 'Custom interval must be between 1 and 1440 minutes.'
+        : draft.frequency === 'scheduled'
+          ? draft.schedule ? validateSchedule(draft.schedule) : 'Pick a schedule.'
+          : null;
+
+  const save = async () => {
+    if (error) return;
+    setSaving(true);
+    try {
+      await onSave({ ...draft, title: draft.title.trim(), message: draft.message.trim() });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="reminder-editor">
+      <div className="setting-item">
+        <label>Title</label>
+        <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} />
+      </div>
+      <div className="setting-item">
+        <label>Message</label>
+        <input type="text" value={draft.message} onChange={e => setDraft({ ...draft, message: e.target.value })} />
+      </div>
+      <div className="setting-item">
+        <label>Frequency</label>
+        <select
+          value={draft.frequency}
+          onChange={e => {
+            const frequency = e.target.value as ReminderFrequency;
+            setDraft({ ...draft, frequency, schedule: frequency === 'scheduled' ? draft.schedule ?? defaultSchedules.times : draft.schedule });
+          }}
+        >
+          {frequencies.map(frequency => (
+            <option key={frequency} value={frequency}>{frequency}</option>
+          ))}
+        </select>
+      </div>
+      {draft.frequency === 'custom' && (
+        <div className="setting-item">
+          <label>Every</label>
+          <div>
+            <input
+              type="number"
+              min={1}
+              max={1440}
+              value={draft.interval ?? ''}
+              onChange={e => setDraft({ ...draft, interval: Number(e.target.value) })}
+            />{' '}
+            minutes
+          </div>
+        </div>
+      )}
+      {draft.frequency === 'scheduled' && draft.schedule && (
+        <ScheduleEditor schedule={draft.schedule} onChange={schedule => setDraft({ ...draft, schedule })} />
+      )}
+      <div className="setting-item">
+        <label>If Missed</label>
+        <select
+          value={draft.missedPolicy}
+          onChange={e => setDraft({ ...draft, missedPolicy: e.target.value as MissedReminderPolicy })}
+        >
+          {Object.entries(missedPolicyLabels).map(([policy, label]) => (
+            <option key={policy} value={policy}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {error && <p className="field-error">{error}</p>}
+      <div className="reminder-actions">
+        <button onClick={save} disabled={saving || !!error} className="save-button">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button onClick={onCancel} className="reset-button">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+const ReminderHistory: React.FC<{ reminderId: string }> = ({ reminderId }) => {
+  const [history, setHistory] = useState<ReminderHistoryEntry[] | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await send('GET_REMINDER_HISTORY', { reminderId }));
+    } catch (error) {
+      console.error('Options: Error loading reminder history:', error);
+    }
+  }, [reminderId]);
+
+  useEffect(() => {
+    loadHistory();
+    return eventBus.on('reminder:triggered', loadHistory);
+  }, [loadHistory]);
+
+  if (!history) {
+    return <p className="reminder-history">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="reminder-history">This reminder hasn't fired yet.</p>;
+  }
+
+  return (
+    <ul className="reminder-history">
+      {history.slice(0, 20).map(entry => (
+        <li key={entry.id}>
+          <span>{actionLabels[entry.action]}</span>
+          <span>{formatTime(entry.timestamp)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const RemindersView: React.FC = () => {
+  const [reminders, setReminders] = useState<Reminder[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const loadReminders = useCallback(async () => {
+    try {
+      // A snooze copy that fired unanswered is removed on the next start; don't list it meanwhile
+      const all = await send('GET_REMINDERS');
+      setReminders(all.filter(reminder => !(reminder.snoozedFrom && !reminder.isActive)));
+    } catch (error) {
+      console.error('Options: Error loading reminders:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReminders();
+
+    // Stay in sync with changes from the popup and with alarms firing in the background
+    const unsubscribers = [
+      eventBus.on('reminder:created', loadReminders),
+      eventBus.on('reminder:updated', loadReminders),
+      eventBus.on('reminder:deleted', loadReminders),
+      eventBus.on('reminder:triggered', loadReminders),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [loadReminders]);
+
+  const updateReminder = async (reminderId: string, data: Partial<Reminder>) => {
+    try {
+      await send('UPDATE_REMINDER', { reminderId, data });
+      await loadReminders();
+    } catch (error) {
+      console.error('Options: Error updating reminder:', error);
+    }
+  };
+
+  const deleteReminder = async (reminder: Reminder) => {
+    if (!confirm(`Delete "${reminder.title}"?`)) return;
+    try {
+      await send('DELETE_REMINDER', { reminderId: reminder.id });
+      await loadReminders();
+    } catch (error) {
+      console.error('Options: Error deleting reminder:', error);
+    }
+  };
+
+  if (!reminders) {
+    return <section>Loading reminders...</section>;
+  }
+
+  if (reminders.length === 0) {
+    return (
+      <section>
+        <h2>Reminders</h2>
+        <p>No reminders yet. Add one from the popup's Reminders tab.</p>
+      </section>
+    );
+  }
+
+  // Upcoming reminders first, paused ones at the end
+  const sortedReminders = [...reminders].sort((a, b) =>
+    Number(b.isActive) - Number(a.isActive) || a.nextTrigger - b.nextTrigger
+  );
+
+  return (
+    <section>
+      <h2>Reminders</h2>
+      {sortedReminders.map(reminder => (
+        <div key={reminder.id} className={`reminder-card ${reminder.isActive ? '' : 'paused'}`}>
+          {editingId === reminder.id ? (
+            <ReminderEditor
+              reminder={reminder}
+              onSave={async changes => {
+                await updateReminder(reminder.id, changes);
+                setEditingId(null);
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              <div className="reminder-summary">
+                <div>
+                  <h3>{reminder.title}</h3>
+                  <p>{reminder.message}</p>
+                  <small>
+                    {describeFrequency(reminder)} •{' '}
+                    {reminder.isActive ? `next ${formatTime(reminder.nextTrigger)}` : 'paused'}
+                  </small>
+                </div>
+                <div className="reminder-actions">
+                  <button onClick={() => updateReminder(reminder.id, { isActive: !reminder.isActive })}>
+                    {reminder.isActive ? 'Pause' : 'Resume'}
+                  </button>
+                  <button onClick={() => setEditingId(reminder.id)}>Edit</button>
+                  <button onClick={() => setHistoryId(historyId === reminder.id ? null : reminder.id)}>
+                    History
+                  </button>
+                  <button onClick={() => deleteReminder(reminder)} className="delete-button">Delete</button>
+                </div>
+              </div>
+              {historyId === reminder.id && <ReminderHistory reminderId={reminder.snoozedFrom ?? reminder.id} />}
+            </>
+          )}
+        </div>
+      ))}
+    </section>
+  );
+};
@@ -1,206 +1,76 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-import { PetState, UserSettings, Reminder, ReminderType } from '@shared/types';
+import { PetState, UserSettings, Reminder, ReminderType, PomodoroPhase, DndReason } from '@shared/types';
 import { PetType } from '@shared/types';
+import { focusSessionManager } from '@shared/focus/focus-session-manager';
+import { send } from '@shared/messaging';
+import { eventBus } from '@shared/events/event-bus';
+import { DEFAULT_OVERLAY_SETTINGS, isOverlayAllowed } from '@shared/overlay/overlay-rules';
+import { levelForXp, levelProgress, stageForLevel } from '@shared/pet/progression';
+import { PET_NAME_MAX_LENGTH } from '@shared/pet/roster-manager';
+import { SHOP_CATALOG, isOwned } from '@shared/shop/shop-manager';
+import { STREAK_FREEZE_COST } from '@shared/streaks/streak-manager';
+import { usePopupStore, isExtension, errorMessage } from './store';
 
 interface PopupProps {}
 
-const isExtension = typeof chrome !== 'undefined' && !!chrome.storage;
-
-const mockPetState: PetState = {
-  type: 'cat',
-  name: 'Whiskers',
-  mood: 'happy',
-  happiness: 90,
-  energy: 80,
-  satiety: 100,
-  treats: 5,
-  unlockedAnimations: ['idle', 'walk', 'sit'],
-  accessories: [],
-  position: { x: 100, y: 100 },
-  currentAnimation: 'idle',
-  lastInteraction: Date.now(),
-};
-
-const mockSettings: UserSettings = {
-  petType: 'cat',
-  petName: 'Whiskers',
-  soundEnabled: true,
-  visualEffectsEnabled: true,
-  petPosition: 'bottom-right',
-  reminderDefaults: { soundEnabled: true, visualEnabled: true, systemNotifications: true },
-  focusTracking: { enabled: true, trackingInterval: 30, treatRewardInterval: 30 },
-  analytics: {
-    enabled: true,
-    trackDomains: true,
-    trackFocusTime: true,
-    trackPetInteractions: true,
-    storyGeneration: true,
-    dataRetentionDays: 7,
-  },
-  theme: 'auto',
-};
-
-const mockReminders: Reminder[] = [
-  {
-    id: '1',
-    title: 'Pomodoro Timer',
-    message: 'Time for a break! Take 5 minutes to stretch.',
-    type: 'pomodoro',
-    frequency: 'custom',
-    interval: 25,
-    nextTrigger: Date.now() + 25 * 60 * 1000,
-    isActive: true,
-    soundEnabled: true,
-    visualEnabled: true,
-    createdAt: Date.now(),
-  },
-  {
-    id: '2',
-    title: 'Posture Check',
-    message: 'Time to check your posture! Sit up straight.',
-    type: 'posture',
-    frequency: 'hourly',
-    nextTrigger: Date.now() + 60 * 60 * 1000,
-    isActive: true,
-    soundEnabled: true,
-    visualEnabled: true,
-    createdAt: Date.now(),
-  },
-];
-
 const petTypes: PetType[] = ['cat', 'dog', 'dragon', 'penguin', 'bunny'];
 
 const Popup: React.FC<PopupProps> = () => {
-  const [petState, setPetState] = useState<PetState | null>(null);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const {
+    petState,
+    settings,
+    reminders,
+    loading,
+    error,
+    clearError,
+    loadData,
+    setSettings,
+    setLatestStory,
+    feedPet,
+    createPresetReminder,
+    toggleReminder,
+    deleteReminder
+  } = usePopupStore();
   const [activeTab, setActiveTab] = useState<'pet' | 'reminders' | 'settings'>('pet');
-  const [loading, setLoading] = useState(true);
   const [analyticsSummary, setAnalyticsSummary] = useState<any | null>(null);
   const [currentStory, setCurrentStory] = useState<any | null>(null);
   const [stories, setStories] = useState<any[]>([]);
-  const [syncTimeout] = useState<NodeJS.Timeout | null>(null); // Track sync timeout for cleanup
-
-  const loadData = useCallback(async () => {
-    if (isExtension) {
-      try {
-        const [petData, settingsData, remindersData] = await Promise.all([
-          sendMessage('GET_PET_STATE'),
-          sendMessage('GET_USER_SETTINGS'),
-          sendMessage('GET_REMINDERS')
-        ]);
-        console.log('Popup: Loaded pet data:', petData);
-        console.log('Popup: Pet treats count:', petData?.treats);
-        console.log('Popup: Loaded settings from storage:', settingsData);
-        console.log('Popup: Settings focusTracking:', settingsData?.focusTracking);
-        setPetState(petData);
-        setSettings(settingsData);
-        setReminders(remindersData);
-      } catch (error) {
-        console.error('Error loading data:', error);
-      } finally {
-        setLoading(false);
-      }
-    } else {
-      // Use mock data in dev mode
-      setPetState(mockPetState);
-      setSettings(mockSettings);
-      setReminders(mockReminders);
-      setLoading(false);
-    }
-  }, [isExtension]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
-  // Listen for sync messages from background script
+  // Listen for state changes made by the background script or other pages
   useEffect(() => {
     if (isExtension) {
-      const handleMessage = (message: any) => {
-        console.log('Popup: Received message:', message);
-        if (message.type === 'SYNC_PET_STATE') {
-          console.log('Popup: Received SYNC_PET_STATE message, reloading immediately');
-          
-          // Clear existing timeout
-          if (syncTimeout) {
-            clearTimeout(syncTimeout);
-          }
-          
-          // Reload immediately for state changes
-          loadData();
-        }
+      const reload = () => {
+        console.log('Popup: State changed elsewhere, reloading immediately');
+        loadData();
       };
 
-      chrome.runtime.onMessage.addListener(handleMessage);
+      const unsubscribers = [
+        eventBus.on('pet:stateChanged', reload),
+        eventBus.on('settings:updated', reload),
+        eventBus.on('reminder:created', reload),
+        eventBus.on('reminder:updated', reload),
+        eventBus.on('reminder:deleted', reload),
+        eventBus.on('focus:sessionStarted', reload),
+        eventBus.on('focus:sessionEnded', reload),
+        eventBus.on('pomodoro:phaseChanged', ({ state }) => usePopupStore.setState({ pomodoro: state })),
+        eventBus.on('dnd:changed', ({ status }) => usePopupStore.setState({ dnd: status })),
+      ];
       
       return () => {
-        chrome.runtime.onMessage.removeListener(handleMessage);
-        // Clean up timeout on unmount
-        if (syncTimeout) {
-          clearTimeout(syncTimeout);
-        }
+        unsubscribers.forEach(unsubscribe => unsubscribe());
       };
     }
-  }, [isExtension, loadData, syncTimeout]);
-
-  const sendMessage = (type: string, data?: any): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      chrome.runtime.sendMessage({ type, ...data }, (response) => {
-        if (response?.success) {
-          resolve(response.data);
-        } else {
-          reject(new Error(response?.error || 'Unknown error'));
-        }
-      });
-    });
-  };
-
-  const feedPet = async () => {
-    if (!isExtension) return; // No-op in dev mode
-    try {
-      await sendMessage('FEED_PET');
-      await loadData(); // Reload data
-    } catch (error) {
-      console.error('Error feeding pet:', error);
-    }
-  };
-
-  const createPresetReminder = async (type: ReminderType) => {
-    if (!isExtension) return; // No-op in dev mode
-    try {
-      await sendMessage('CREATE_PRESET_REMINDER', { reminderType: type });
-      await loadData(); // Reload data
-    } catch (error) {
-      console.error('Error creating preset reminder:', error);
-    }
-  };
-
-  const toggleReminder = async (reminderId: string, isActive: boolean) => {
-    if (!isExtension) return; // No-op in dev mode
-    try {
-      await sendMessage('UPDATE_REMINDER', { reminderId, data: { isActive } });
-      await loadData(); // Reload data
-    } catch (error) {
-      console.error('Error toggling reminder:', error);
-    }
-  };
-
-  const deleteReminder = async (reminderId: string) => {
-    if (!isExtension) return; // No-op in dev mode
-    try {
-      await sendMessage('DELETE_REMINDER', { reminderId });
-      await loadData(); // Reload data
-    } catch (error) {
-      console.error('Error deleting reminder:', error);
-    }
-  };
+  }, [loadData]);
 
   // TEMP: Test analytics summary
   const testAnalytics = async () => {
     try {
-      const summary = await sendMessage('TEST_ANALYTICS_SUMMARY');
+      const summary = await send('TEST_ANALYTICS_SUMMARY');
       setAnalyticsSummary(summary);
       console.log('Popup: Analytics summary:', summary);
     } catch (error) {
@@ -212,7 +82,7 @@ const Popup: React.FC<PopupProps> = () => {
   // Debug analytics status
   const debugAnalytics = async () => {
     try {
-      const status = await sendMessage('GET_ANALYTICS_STATUS');
+      const status = await send('GET_ANALYTICS_STATUS');
       setAnalyticsSummary(status);
       console.log('Popup: Analytics status:', status);
     } catch (error) {
@@ -224,7 +94,7 @@ const Popup: React.FC<PopupProps> = () => {
   // Clear analytics data
   const clearAnalytics = async () => {
     try {
-      await sendMessage('CLEAR_ANALYTICS_DATA');
+      await send('CLEAR_ANALYTICS_DATA');
       console.log('Popup: Analytics data cleared');
       // Refresh the analytics summary
       await testAnalytics();
@@ -236,7 +106,7 @@ const Popup: React.FC<PopupProps> = () => {
   // Test analytics tracking
   const testAnalyticsTracking = async () => {
     try {
-      await sendMessage('TEST_ANALYTICS_TRACKING');
+      await send('TEST_ANALYTICS_TRACKING');
       console.log('Popup: Test activity logged');
       // Refresh the analytics summary
       await testAnalytics();
@@ -248,8 +118,9 @@ const Popup: React.FC<PopupProps> = () => {
   // Story generation functions
   const generateDailyStory = async () => {
     try {
-      const story = await sendMessage('GENERATE_DAILY_STORY');
+      const story = await send('GENERATE_DAILY_STORY');
       setCurrentStory(story);
+      setLatestStory(story);
       console.log('Popup: Generated daily story:', story);
     } catch (error) {
       console.error('Popup: Error generating daily story:', error);
@@ -258,8 +129,9 @@ const Popup: React.FC<PopupProps> = () => {
 
   const generateWeeklyStory = async () => {
     try {
-      const story = await sendMessage('GENERATE_WEEKLY_STORY');
+      const story = await send('GENERATE_WEEKLY_STORY');
       setCurrentStory(story);
+      setLatestStory(story);
       console.log('Popup: Generated weekly story:', story);
     } catch (error) {
       console.error('Popup: Error generating weekly story:', error);
@@ -268,7 +140,7 @@ const Popup: React.FC<PopupProps> = () => {
 
   const viewStories = async () => {
     try {
-      const storiesList = await sendMessage('GET_STORIES');
+      const storiesList = await send('GET_STORIES');
       setStories(storiesList);
       console.log('Popup: Loaded stories:', storiesList);
     } catch (error) {
@@ -310,14 +182,18 @@ const Popup: React.FC<PopupProps> = () => {
         </div>
       </div>
 
+      {error && (
+        <div className="error-banner" role="alert">
+          <span>{error}</span>
+          <button onClick={clearError} aria-label="Dismiss">✕</button>
+        </div>
+      )}
+
       <div className="content">
         {activeTab === 'pet' && petState && (
           <PetTab 
             petState={petState} 
             onFeedPet={feedPet} 
-            sendMessage={sendMessage}
-            loadData={loadData}
-            isExtension={isExtension}
           />
         )}
 
@@ -333,7 +209,6 @@ const Popup: React.FC<PopupProps> = () => {
         {activeTab === 'settings' && settings && (
           <SettingsTab 
             settings={settings} 
-            sendMessage={sendMessage}
             setSettings={setSettings}
           />
         )}
@@ -421,12 +296,9 @@ const Popup: React.FC<PopupProps> = () => {
 interface PetTabProps {
   petState: PetState;
   onFeedPet: () => void;
-  sendMessage: (type: string, data?: any) => Promise<any>;
-  loadData: () => Promise<void>;
-  isExtension: boolean;
 }
 
-const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) => {
+const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet }) => {
   const showAIInsights = () => {
     console.log('focusPet: Showing AI Insights');
     const insights = [
@@ -435,9 +307,9 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
       `User Preferences: ${petState.aiMemory?.userPreferences?.length || 0} preferences stored`,
       `Learned Behaviors: ${petState.aiMemory?.learnedBehaviors?.length || 0} behaviors`,
       `Current Mood: ${petState.mood}`,
-      `Happiness: ${petState.happiness}%`,
-      `Energy: ${petState.energy}%`,
-      `Satiety: ${petState.satiety}%`
+      `Happiness: ${Math.round(petState.happiness)}%`,
+      `Energy: ${Math.round(petState.energy)}%`,
+      `Satiety: ${Math.round(petState.satiety)}%`
     ];
     
     alert('🤖 AI Insights:\n\n' + insights.join('\n'));
@@ -455,11 +327,14 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
     alert('🧠 Personality Test:\n\n' + testQuestions.join('\n') + '\n\n(Feature coming soon!)');
   };
 
+  const progress = levelProgress(petState.xp ?? 0);
+
   return (
     <div className="pet-tab">
       <div className="pet-info">
         <h2>{petState.name}</h2>
         <p>Type: {petState.type}</p>
+        <p>Level {progress.level} {stageForLevel(petState.type, progress.level)}</p>
         <p>Mood: {petState.mood}</p>
       </div>
 
@@ -472,7 +347,7 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
               style={{ width: `${petState.happiness}%` }}
             />
           </div>
-          <span>{petState.happiness}%</span>
+          <span>{Math.round(petState.happiness)}%</span>
         </div>
 
         <div className="stat">
@@ -483,7 +358,7 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
               style={{ width: `${petState.energy}%` }}
             />
           </div>
-          <span>{petState.energy}%</span>
+          <span>{Math.round(petState.energy)}%</span>
         </div>
 
         <div className="stat">
@@ -494,7 +369,23 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
               style={{ width: `${petState.satiety || 0}%` }}
             />
           </div>
-          <span>{petState.satiety || 0}%</span>
+          <span>{Math.round(petState.satiety || 0)}%</span>
+        </div>
+
+        <div className="stat">
+          <label>XP</label>
+          <div className="progress-bar">
+            <div 
+              className="progress-fill" 
+              style={{ width: `${(progress.xpIntoLevel / progress.xpForNextLevel) * 100}%` }}
+            />
+          </div>
+          <span>{progress.xpIntoLevel}/{progress.xpForNextLevel}</span>
+        </div>
+
+        <div className="stat">
+          <label>Treats</label>
+          <span className="treat-count">🍪 {petState.treats}</span>
         </div>
       </div>
 
@@ -510,7 +401,7 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
           <button 
             onClick={async () => {
               try {
-                await sendMessage('TRIGGER_AI_RESPONSE');
+                await send('TRIGGER_AI_RESPONSE');
                 console.log('focusPet: Triggered AI response manually');
               } catch (error) {
                 console.error('focusPet: Error triggering AI response:', error);
@@ -523,6 +414,18 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
 
         </div>
 
+      <PetRosterCard />
+
+      <FocusControl />
+
+      <PomodoroControl />
+
+      <StreakCard />
+
+      <SiteVisibilityControl />
+
+      <LatestStoryCard />
+
       <div className="pet-animations">
         <h3>Unlocked Animations</h3>
         <div className="animation-list">
@@ -534,6 +437,8 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
         </div>
       </div>
 
+      <PetShop petState={petState} />
+
       <div className="ai-features">
         <h3>🤖 AI Features</h3>
         <div className="ai-status">
@@ -563,6 +468,306 @@ const PetTab: React.FC<PetTabProps> = ({ petState, onFeedPet, sendMessage }) =>
   );
 };
 
+const FocusControl: React.FC = () => {
+  const { activeSession, startFocus, pauseFocus, resumeFocus, endFocus } = usePopupStore();
+  const [, setTick] = useState(0);
+
+  // Re-render every 30 seconds so the elapsed minutes stay current
+  useEffect(() => {
+    if (!activeSession) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 30000);
+    return () => clearInterval(timer);
+  }, [activeSession]);
+
+  if (!activeSession) {
+    return (
+      <div className="focus-control">
+        <button onClick={startFocus} className="focus-button">
+          🎯 Start Focus Session
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="focus-control">
+      <p className="focus-status">
+        {activeSession.isPaused ? '⏸️ Paused' : '🎯 Focusing'} on {activeSession.website} for{' '}
+        {focusSessionManager.calculateDuration(activeSession)} min
+      </p>
+      <div className="focus-buttons">
+        {activeSession.isPaused ? (
+          <button onClick={resumeFocus} className="focus-button">Resume</button>
+        ) : (
+          <button onClick={pauseFocus} className="focus-button">Pause</button>
+        )}
+        <button onClick={endFocus} className="focus-button end">End Session</button>
+      </div>
+    </div>
+  );
+};
+
+const pomodoroPhaseLabels: Record<PomodoroPhase, string> = {
+  work: '🍅 Work',
+  shortBreak: '☕ Short break',
+  longBreak: '🌴 Long break',
+};
+
+const PomodoroControl: React.FC = () => {
+  const { pomodoro, settings, startPomodoro, skipPomodoroPhase, stopPomodoro } = usePopupStore();
+  const [, setTick] = useState(0);
+
+  // Re-render every second so the countdown stays current
+  useEffect(() => {
+    if (!pomodoro?.isRunning) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [pomodoro?.isRunning]);
+
+  if (!pomodoro) return null;
+
+  const cyclesBeforeLongBreak = settings?.pomodoro?.cyclesBeforeLongBreak ?? 4;
+  const remainingSeconds = Math.max(0, Math.round(((pomodoro.phaseEndsAt ?? Date.now()) - Date.now()) / 1000));
+  const countdown = `${Math.floor(remainingSeconds / 60)}:${String(remainingSeconds % 60).padStart(2, '0')}`;
+  const isFresh = !pomodoro.isRunning && pomodoro.phase === 'work' && pomodoro.cyclesCompleted === 0;
+
+  return (
+    <div className="focus-control">
+      {isFresh ? (
+        <button onClick={startPomodoro} className="focus-button">
+          🍅 Start Pomodoro
+        </button>
+      ) : (
+        <>
+          <p className="focus-status">
+            {pomodoroPhaseLabels[pomodoro.phase]} • {pomodoro.isRunning ? countdown : 'ready'} • cycle{' '}
+            {Math.min(pomodoro.cyclesCompleted + 1, cyclesBeforeLongBreak)}/{cyclesBeforeLongBreak}
+          </p>
+          <div className="focus-buttons">
+            {pomodoro.isRunning ? (
+              <button onClick={skipPomodoroPhase} className="focus-button">Skip</button>
+            ) : (
+              <button onClick={startPomodoro} className="focus-button">Start {pomodoroPhaseLabels[pomodoro.phase]}</button>
+            )}
+            <button onClick={stopPomodoro} className="focus-button end">Stop</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const StreakCard: React.FC = () => {
+  const { streakHistory, petState, buyStreakFreeze } = usePopupStore();
+  if (!streakHistory) return null;
+
+  // Pad the first column so every row of the heatmap is one weekday
+  const firstDay = streakHistory.days[0] ? new Date(`${streakHistory.days[0].date}T00:00`).getDay() : 0;
+  const hasFreeze = streakHistory.freezesAvailable > 0;
+
+  return (
+    <div className="streak-card">
+      <h3>🔥 Focus Streak</h3>
+      <div className="streak-heatmap">
+        {Array.from({ length: firstDay }, (_, index) => (
+          <span key={`pad-${index}`} className="streak-cell empty" />
+        ))}
+        {streakHistory.days.map(day => (
+          <span
+            key={day.date}
+            className={`streak-cell ${day.qualified ? 'qualified' : day.frozen ? 'frozen' : day.minutes > 0 ? 'partial' : ''}`}
+            title={`${day.date}: ${day.minutes} min${day.frozen ? ' (frozen)' : ''}`}
+          />
+        ))}
+      </div>
+      <div className="streak-footer">
+        <small>{streakHistory.minimumMinutes} focus minutes keep the streak going</small>
+        {hasFreeze ? (
+          <span className="shop-owned">🧊 Freeze ready</span>
+        ) : (
+          <button
+            onClick={buyStreakFreeze}
+            disabled={!petState || petState.treats < STREAK_FREEZE_COST}
+            className="shop-button"
+          >
+            🧊 Freeze 🍪 {STREAK_FREEZE_COST}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LatestStoryCard: React.FC = () => {
+  const latestStory = usePopupStore(state => state.latestStory);
+
+  return (
+    <div className="latest-story">
+      <h3>📖 Latest Story</h3>
+      {latestStory ? (
+        <>
+          <h4>{latestStory.title}</h4>
+          <p>{latestStory.content}</p>
+          <small>{latestStory.date} • {latestStory.type}</small>
+        </>
+      ) : (
+        <p>No stories yet. Your pet will write one after a day of browsing.</p>
+      )}
+    </div>
+  );
+};
+
+const petTypeIcons: Record<PetType, string> = {
+  cat: '🐱',
+  dog: '🐶',
+  dragon: '🐉',
+  penguin: '🐧',
+  bunny: '🐰',
+};
+
+const PetRosterCard: React.FC = () => {
+  const { roster, adoptPet, switchPet } = usePopupStore();
+  const [adoptType, setAdoptType] = useState<PetType>('dog');
+  const [adoptName, setAdoptName] = useState('');
+  if (!roster) return null;
+
+  const adopt = async () => {
+    await adoptPet(adoptType, adoptName.trim());
+    setAdoptName('');
+  };
+
+  return (
+    <div className="pet-roster">
+      <h3>🏠 Your Pets</h3>
+      {roster.pets.map(pet => {
+        const active = pet.id === roster.activePetId;
+        return (
+          <div key={pet.id} className={`roster-pet ${active ? 'active' : ''}`}>
+            <div>
+              <strong>{petTypeIcons[pet.type]} {pet.name}</strong>
+              <small>
+                Level {levelForXp(pet.xp ?? 0)} • {pet.lifetime?.focusMinutes ?? 0} focus min
+                • {pet.lifetime?.treatsFed ?? 0} treats • {pet.lifetime?.remindersHonoured ?? 0} reminders
+              </small>
+            </div>
+            {active ? (
+              <span className="shop-owned">Out now</span>
+            ) : (
+              <button onClick={() => switchPet(pet.id!)} className="shop-button">Switch</button>
+            )}
+          </div>
+        );
+      })}
+      <div className="roster-adopt">
+        <select value={adoptType} onChange={e => setAdoptType(e.target.value as PetType)}>
+          {petTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={adoptName}
+          placeholder="Name"
+          maxLength={PET_NAME_MAX_LENGTH}
+          onChange={e => setAdoptName(e.target.value)}
+        />
+        <button onClick={adopt} disabled={!adoptName.trim()} className="shop-button">Adopt</button>
+      </div>
+    </div>
+  );
+};
+
+const PetShop: React.FC<{ petState: PetState }> = ({ petState }) => {
+  const { purchaseItem, setAccessoryEquipped } = usePopupStore();
+  const equipped = petState.equippedAccessories ?? [];
+
+  return (
+    <div className="pet-shop">
+      <h3>🛍️ Treat Shop</h3>
+      {SHOP_CATALOG.map(item => {
+        const owned = isOwned(petState, item);
+        const worn = equipped.includes(item.id);
+        return (
+          <div key={item.id} className="shop-item">
+            <span className="shop-item-name">{item.icon} {item.name}</span>
+            {!owned && (
+              <button onClick={() => purchaseItem(item.id)} disabled={petState.treats < item.price} className="shop-button">
+                🍪 {item.price}
+              </button>
+            )}
+            {owned && item.kind === 'accessory' && (
+              <button onClick={() => setAccessoryEquipped(item.id, !worn)} className={`shop-button ${worn ? 'worn' : ''}`}>
+                {worn ? 'Take off' : 'Wear'}
+              </button>
+            )}
+            {owned && item.kind === 'animation' && <span className="shop-owned">Unlocked</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const dndReasonLabels: Record<DndReason, string> = {
+  manual: 'Do Not Disturb',
+  meeting: 'In a meeting',
+  quietHours: 'Quiet hours',
+};
+
+const dndDurations = [30, 60, 120];
+
+const DndControl: React.FC = () => {
+  const { dnd, startDnd, endDnd } = usePopupStore();
+  if (!dnd) return null;
+
+  const queuedNote = dnd.queued > 0 ? ` • ${dnd.queued} waiting` : '';
+
+  return (
+    <div className="focus-control">
+      <p className="focus-status">
+        {dnd.active && dnd.reason ? `🌙 ${dndReasonLabels[dnd.reason]}` : '🔔 Reminders on'}
+        {dnd.manualUntil && ` until ${new Date(dnd.manualUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
+        {queuedNote}
+      </p>
+      <div className="focus-buttons">
+        {dnd.manualUntil ? (
+          <button onClick={endDnd} className="focus-button end">End Do Not Disturb</button>
+        ) : (
+          dndDurations.map(minutes => (
+            <button key={minutes} onClick={() => startDnd(minutes)} className="focus-button">
+              🌙 {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SiteVisibilityControl: React.FC = () => {
+  const { settings, currentSite, toggleSiteHidden } = usePopupStore();
+  if (!settings || !currentSite) return null;
+
+  const overlay = { ...DEFAULT_OVERLAY_SETTINGS, ...settings.overlay };
+  const listed = overlay.hiddenSites.includes(currentSite);
+  // Other rules (hide everywhere, allow list, wildcards) can still hide the pet here
+  const visible = isOverlayAllowed(`https://${currentSite}/`, { ...overlay, hideInFullscreen: false }, false);
+
+  return (
+    <div className="focus-control">
+      <p className="focus-status">
+        {visible ? `🐾 Visible on ${currentSite}` : `🙈 Hidden on ${currentSite}`}
+        {!visible && !listed && ' by your overlay settings'}
+      </p>
+      <div className="focus-buttons">
+        <button onClick={toggleSiteHidden} className="focus-button">
+          {listed ? 'Show on this site' : 'Hide on this site'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 interface RemindersTabProps {
   reminders: Reminder[];
   onCreatePreset: (type: ReminderType) => void;
@@ -576,9 +781,8 @@ const RemindersTab: React.FC<RemindersTabProps> = ({
   onToggle, 
   onDelete 
 }) => {
-  const validPresetTypes: ReminderType[] = ['pomodoro', 'posture', 'water', 'eye-rest', 'test'];
+  const validPresetTypes: ReminderType[] = ['posture', 'water', 'eye-rest', 'test'];
   const presetTypes: { type: ReminderType; label: string; description: string }[] = [
-    { type: 'pomodoro', label: 'Pomodoro', description: '25min work / 5min break' },
     { type: 'posture', label: 'Posture Check', description: 'Hourly posture reminder' },
     { type: 'water', label: 'Water Break', description: 'Every 2 hours' },
     { type: 'eye-rest', label: 'Eye Rest', description: '20-20-20 rule' },
@@ -595,6 +799,8 @@ const RemindersTab: React.FC<RemindersTabProps> = ({
 
   return (
     <div className="reminders-tab">
+      <DndControl />
+
       <div className="preset-reminders">
         <h3>Quick Reminders</h3>
         <div className="preset-grid">
@@ -661,11 +867,10 @@ const RemindersTab: React.FC<RemindersTabProps> = ({
 
 interface SettingsTabProps {
   settings: UserSettings;
-  sendMessage: (type: string, data?: any) => Promise<any>;
-  setSettings: React.Dispatch<React.SetStateAction<UserSettings | null>>;
+  setSettings: (settings: UserSettings) => void;
 }
 
-const SettingsTab: React.FC<SettingsTabProps> = ({ settings, sendMessage, setSettings }) => {
+const SettingsTab: React.FC<SettingsTabProps> = ({ settings, setSettings }) => {
   const [selectedPet, setSelectedPet] = useState(settings.petType);
   const [petName, setPetName] = useState(settings.petName);
   const [soundEnabled, setSoundEnabled] = useState(settings.soundEnabled);
@@ -674,6 +879,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, sendMessage, setSet
   const [treatRewardInterval, setTreatRewardInterval] = useState(settings.focusTracking.treatRewardInterval);
   const [saving, setSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [saveError, setSaveError] = useState('');
 
   // Update local state when settings prop changes
   useEffect(() => {
@@ -725,10 +931,10 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, sendMessage, setSet
       };
       
       console.log('Saving settings:', updatedSettings);
-      await sendMessage('UPDATE_USER_SETTINGS', { data: updatedSettings });
+      await send('UPDATE_USER_SETTINGS', { data: updatedSettings });
       
       // Verify the settings were saved by reading them back
-      const savedSettings = await sendMessage('GET_USER_SETTINGS');
+      const savedSettings = await send('GET_USER_SETTINGS');
       console.log('Settings after save:', savedSettings);
       
       // Update the parent component's settings state
@@ -740,6 +946,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, sendMessage, setSet
       setTimeout(() => setSaveStatus('idle'), 2000);
     } catch (error) {
       console.error('Error saving settings:', error);
+      setSaveError(errorMessage(error));
       setSaveStatus('error');
       
       // Reset error message after 3 seconds
@@ -798,7 +1005,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, sendMessage, setSet
           <span className="save-status success">✓ Settings saved!</span>
         )}
         {saveStatus === 'error' && (
-          <span className="save-status error">✗ Failed to save settings</span>
+          <span className="save-status error">✗ {saveError || 'Failed to save settings'}</span>
         )}
       </div>
 
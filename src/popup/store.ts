@@ -0,0 +1,394 @@
+import { create } from 'zustand';
+import { PetState, PetRoster, PetType, UserSettings, Reminder, ReminderType, FocusSession, PomodoroState, DndStatus, StreakHistory } from '@shared/types';
+import { StoryData } from '@shared/analytics/story-generator';
+import { send } from '@shared/messaging';
+import { DEFAULT_OVERLAY_SETTINGS, toSiteKey } from '@shared/overlay/overlay-rules';
+
+export const isExtension = typeof chrome !== 'undefined' && !!chrome.storage;
+
+// Background handlers reject with messages meant for the user, e.g. "A streak freeze costs 10 treats."
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const mockPetState: PetState = {
+  id: 'mock',
+  type: 'cat',
+  name: 'Whiskers',
+  mood: 'happy',
+  happiness: 90,
+  energy: 80,
+  satiety: 100,
+  treats: 5,
+  unlockedAnimations: ['idle', 'walk', 'sit'],
+  accessories: [],
+  position: { x: 100, y: 100 },
+  currentAnimation: 'idle',
+  lastInteraction: Date.now(),
+};
+
+const mockRoster: PetRoster = { activePetId: 'mock', pets: [mockPetState] };
+
+const mockSettings: UserSettings = {
+  petType: 'cat',
+  petName: 'Whiskers',
+  soundEnabled: true,
+  visualEffectsEnabled: true,
+  petPosition: 'bottom-right',
+  reminderDefaults: { soundEnabled: true, visualEnabled: true, systemNotifications: true },
+  focusTracking: {
+    enabled: true,
+    trackingInterval: 30,
+    treatRewardInterval: 30,
+    streakMinimumMinutes: 25,
+    idleThresholdSeconds: 60,
+    countedActivityTypes: ['work', 'research'],
+  },
+  pomodoro: {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4,
+    autoStartBreaks: true,
+    autoStartWork: false,
+  },
+  doNotDisturb: {
+    quietHours: { enabled: false, start: '22:00', end: '07:00', days: [0, 1, 2, 3, 4, 5, 6] },
+    suppressDuringMeetings: true,
+  },
+  pageClassification: { enabled: false, titleStorage: 'none', domainDepth: {} },
+  focusGuard: { enabled: false, blockedActivityTypes: ['social', 'entertainment'], allowedDomains: [] },
+  overlay: { hidden: false, hideInFullscreen: true, hiddenSites: [], onlyOnSites: [], rememberPosition: 'global' },
+  analytics: {
+    enabled: true,
+    trackDomains: true,
+    trackFocusTime: true,
+    trackPetInteractions: true,
+    storyGeneration: true,
+    dataRetentionDays: 7,
+  },
+  theme: 'auto',
+};
+
+const mockReminders: Reminder[] = [
+  {
+    id: '1',
+    title: 'Posture Check',
+    message: 'Time to check your posture! Sit up straight.',
+    type: 'posture',
+    frequency: 'hourly',
+    nextTrigger: Date.now() + 60 * 60 * 1000,
+    isActive: true,
+    soundEnabled: true,
+    visualEnabled: true,
+    createdAt: Date.now(),
+  },
+];
+
+interface PopupState {
+  petState: PetState | null;
+  roster: PetRoster | null;
+  settings: UserSettings | null;
+  reminders: Reminder[];
+  activeSession: FocusSession | null;
+  pomodoro: PomodoroState | null;
+  dnd: DndStatus | null;
+  latestStory: StoryData | null;
+  streakHistory: StreakHistory | null;
+  currentSite: string | null; // host of the tab the popup was opened over
+  loading: boolean;
+  error: string | null; // last failed action, shown until dismissed
+
+  clearError: () => void;
+
+  loadData: () => Promise<void>;
+  setSettings: (settings: UserSettings) => void;
+  setLatestStory: (story: StoryData) => void;
+  feedPet: () => Promise<void>;
+  createPresetReminder: (type: ReminderType) => Promise<void>;
+  toggleReminder: (reminderId: string, isActive: boolean) => Promise<void>;
+  deleteReminder: (reminderId: string) => Promise<void>;
+  startFocus: () => Promise<void>;
+  pauseFocus: () => Promise<void>;
+  resumeFocus: () => Promise<void>;
+  endFocus: () => Promise<void>;
+  startPomodoro: () => Promise<void>;
+  skipPomodoroPhase: () => Promise<void>;
+  stopPomodoro: () => Promise<void>;
+  startDnd: (minutes: number) => Promise<void>;
+  endDnd: () => Promise<void>;
+  toggleSiteHidden: () => Promise<void>;
+  purchaseItem: (itemId: string) => Promise<void>;
+  setAccessoryEquipped: (itemId: string, equipped: boolean) => Promise<void>;
+  adoptPet: (petType: PetType, name: string) => Promise<void>;
+  switchPet: (petId: string) => Promise<void>;
+  buyStreakFreeze: () => Promise<void>;
+}
+
+export const usePopupStore = create<PopupState>((set, get) => ({
+  petState: null,
+  roster: null,
+  settings: null,
+  reminders: [],
+  activeSession: null,
+  pomodoro: null,
+  dnd: null,
+  latestStory: null,
+  streakHistory: null,
+  currentSite: null,
+  loading: true,
+  error: null,
+
+  clearError: () => set({ error: null }),
+
+  loadData: async () => {
+    if (!isExtension) {
+      // Use mock data in dev mode
+      set({ petState: mockPetState, roster: mockRoster, settings: mockSettings, reminders: mockReminders, loading: false });
+      return;
+    }
+
+    try {
+      const [petState, roster, settings, reminders, activeSession, pomodoro, dnd, latestStory, streakHistory, [activeTab]] = await Promise.all([
+        send('GET_PET_STATE'),
+        send('GET_PET_ROSTER'),
+        send('GET_USER_SETTINGS'),
+        send('GET_REMINDERS'),
+        send('GET_ACTIVE_FOCUS_SESSION'),
+        send('GET_POMODORO_STATE'),
+        send('GET_DND_STATUS'),
+        send('GET_LATEST_STORY'),
+        send('GET_STREAK_HISTORY', {}),
+        chrome.tabs.query({ active: true, currentWindow: true })
+      ]);
+      console.log('Popup: Loaded pet data:', petState);
+      console.log('Popup: Loaded settings from storage:', settings);
+      const currentSite = activeTab?.url ? toSiteKey(activeTab.url) : null;
+      set({ petState, roster, settings, reminders, activeSession, pomodoro, dnd, latestStory, streakHistory, currentSite });
+    } catch (error) {
+      console.error('Error loading data:', error);
+      set({ error: errorMessage(error) });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  setSettings: (settings) => set({ settings }),
+
+  setLatestStory: (story) => set({ latestStory: story }),
+
+  feedPet: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('FEED_PET');
+      await get().loadData(); // Reload data
+    } catch (error) {
+      console.error('Error feeding pet:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  createPresetReminder: async (type) => {
+    if (!isExtension) return; // No-op in dev mode
+
+    // The Pomodoro preset runs the background cycle engine rather than a repeating reminder
+    if (type === 'pomodoro') {
+      await get().startPomodoro();
+      return;
+    }
+
+    try {
+      await send('CREATE_PRESET_REMINDER', { reminderType: type });
+      await get().loadData(); // Reload data
+    } catch (error) {
+      console.error('Error creating preset reminder:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  toggleReminder: async (reminderId, isActive) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('UPDATE_REMINDER', { reminderId, data: { isActive } });
+      await get().loadData(); // Reload data
+    } catch (error) {
+      console.error('Error toggling reminder:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  deleteReminder: async (reminderId) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('DELETE_REMINDER', { reminderId });
+      await get().loadData(); // Reload data
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  startFocus: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ activeSession: await send('START_FOCUS') });
+    } catch (error) {
+      console.error('Error starting focus session:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  pauseFocus: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ activeSession: await send('PAUSE_FOCUS') });
+    } catch (error) {
+      console.error('Error pausing focus session:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  resumeFocus: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ activeSession: await send('RESUME_FOCUS') });
+    } catch (error) {
+      console.error('Error resuming focus session:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  endFocus: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('END_FOCUS');
+      set({ activeSession: null });
+    } catch (error) {
+      console.error('Error ending focus session:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  startPomodoro: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ pomodoro: await send('START_POMODORO') });
+    } catch (error) {
+      console.error('Error starting Pomodoro:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  skipPomodoroPhase: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ pomodoro: await send('SKIP_POMODORO_PHASE') });
+    } catch (error) {
+      console.error('Error skipping Pomodoro phase:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  stopPomodoro: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ pomodoro: await send('STOP_POMODORO') });
+    } catch (error) {
+      console.error('Error stopping Pomodoro:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  startDnd: async (minutes) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ dnd: await send('START_DND', { minutes }) });
+    } catch (error) {
+      console.error('Error starting Do Not Disturb:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  endDnd: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ dnd: await send('END_DND') });
+    } catch (error) {
+      console.error('Error ending Do Not Disturb:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  // "Hide on this site" only adds or removes the site's own entry in the deny list
+  toggleSiteHidden: async () => {
+    const { settings, currentSite } = get();
+    if (!isExtension || !settings || !currentSite) return;
+
+    const overlay = { ...DEFAULT_OVERLAY_SETTINGS, ...settings.overlay };
+    const hiddenSites = overlay.hiddenSites.includes(currentSite)
+      ? overlay.hiddenSites.filter(site => site !== currentSite)
+      : [...overlay.hiddenSites, currentSite];
+    const updatedSettings: UserSettings = { ...settings, overlay: { ...overlay, hiddenSites } };
+
+    try {
+      await send('UPDATE_USER_SETTINGS', { data: updatedSettings });
+      set({ settings: updatedSettings });
+    } catch (error) {
+      console.error('Error updating overlay sites:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  purchaseItem: async (itemId) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ petState: await send('PURCHASE_ITEM', { itemId }) });
+    } catch (error) {
+      console.error('Error buying shop item:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  setAccessoryEquipped: async (itemId, equipped) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      set({ petState: await send('SET_ACCESSORY_EQUIPPED', { itemId, equipped }) });
+    } catch (error) {
+      console.error('Error changing accessory:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  adoptPet: async (petType, name) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('ADOPT_PET', { petType, name });
+      await get().loadData(); // The active pet changed
+    } catch (error) {
+      console.error('Error adopting pet:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  switchPet: async (petId) => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('SWITCH_PET', { petId });
+      await get().loadData(); // The active pet changed
+    } catch (error) {
+      console.error('Error switching pet:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+
+  buyStreakFreeze: async () => {
+    if (!isExtension) return; // No-op in dev mode
+    try {
+      await send('BUY_STREAK_FREEZE');
+      await get().loadData(); // Treats and the freeze count both changed
+    } catch (error) {
+      console.error('Error buying streak freeze:', error);
+      set({ error: errorMessage(error) });
+    }
+  },
+}));
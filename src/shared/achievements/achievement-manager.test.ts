@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FocusStats } from '../types';
+import { storageManager } from '../storage';
+import { achievementManager } from './achievement-manager';
+
+// In-memory chrome.storage.local; values are copied like the real one
+const store: Record<string, unknown> = {};
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async (key: string) => ({ [key]: structuredClone(store[key]) }),
+      set: async (items: Record<string, unknown>) => {
+        Object.assign(store, structuredClone(items));
+      },
+      remove: async (key: string) => {
+        delete store[key];
+      },
+    },
+    onChanged: { addListener: () => {} },
+  },
+});
+
+function stats(): FocusStats {
+  return { totalFocusTime: 0, currentStreak: 0, longestStreak: 0, treatsEarned: 0, achievements: [] };
+}
+
+describe('achievementManager counters', () => {
+  beforeEach(async () => {
+    Object.keys(store).forEach(key => delete store[key]);
+    await storageManager.setFocusStats(stats());
+  });
+
+  it('keeps every one of several counts made back to back', async () => {
+    await Promise.all([
+      achievementManager.recordTreatFed(),
+      achievementManager.recordTreatFed(),
+      achievementManager.recordReminderHonoured(),
+    ]);
+
+    const focusStats = await storageManager.getFocusStats();
+    expect(focusStats?.treatsFed).toBe(2);
+    expect(focusStats?.remindersHonoured).toBe(1);
+  });
+
+  it('keeps the count alongside the unlock it triggers', async () => {
+    const unlocked = await achievementManager.recordTreatFed();
+
+    const focusStats = await storageManager.getFocusStats();
+    expect(unlocked.map(achievement => achievement.id)).toEqual(['fed_1']);
+    expect(focusStats?.treatsFed).toBe(1);
+    expect(focusStats?.achievements.find(achievement => achievement.id === 'fed_1')?.unlocked).toBe(true);
+  });
+});
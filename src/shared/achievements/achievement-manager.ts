@@ -0,0 +1,156 @@
+import { Achievement, AchievementDefinition, AchievementMetric, FocusStats } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+
+// Declarative achievement catalog - add new milestones here
+export const ACHIEVEMENT_CATALOG: AchievementDefinition[] = [
+  // Focus-minute milestones
+  { id: 'focus_60', name: 'First Hour', description: 'Focus for 60 minutes in total', icon: '⏱️', metric: 'focusMinutes', threshold: 60 },
+  { id: 'focus_600', name: 'Deep Worker', description: 'Focus for 10 hours in total', icon: '🧠', metric: 'focusMinutes', threshold: 600 },
+  { id: 'focus_3000', name: 'Focus Master', description: 'Focus for 50 hours in total', icon: '🏆', metric: 'focusMinutes', threshold: 3000 },
+
+  // Streaks
+  { id: 'streak_3', name: 'On a Roll', description: 'Keep a 3-day focus streak', icon: '🔥', metric: 'streakDays', threshold: 3 },
+  { id: 'streak_7', name: 'Week Warrior', description: 'Keep a 7-day focus streak', icon: '📅', metric: 'streakDays', threshold: 7 },
+  { id: 'streak_30', name: 'Unstoppable', description: 'Keep a 30-day focus streak', icon: '🌟', metric: 'streakDays', threshold: 30 },
+
+  // Treats fed
+  { id: 'fed_1', name: 'First Snack', description: 'Feed your pet a treat', icon: '🍪', metric: 'treatsFed', threshold: 1 },
+  { id: 'fed_25', name: 'Pet Chef', description: 'Feed your pet 25 treats', icon: '🍖', metric: 'treatsFed', threshold: 25 },
+  { id: 'fed_100', name: 'Master Chef', description: 'Feed your pet 100 treats', icon: '🎂', metric: 'treatsFed', threshold: 100 },
+
+  // Reminders honoured
+  { id: 'reminders_10', name: 'Good Listener', description: 'Honour 10 reminders', icon: '⏰', metric: 'remindersHonoured', threshold: 10 },
+  { id: 'reminders_100', name: 'Healthy Habits', description: 'Honour 100 reminders', icon: '💧', metric: 'remindersHonoured', threshold: 100 },
+
+  // Nights with a bedtime story
+  { id: 'stories_1', name: 'Once Upon a Time', description: 'Read your first bedtime story', icon: '📖', metric: 'storyNights', threshold: 1 },
+  { id: 'stories_7', name: 'Storyteller', description: 'Get a bedtime story on 7 different nights', icon: '🌙', metric: 'storyNights', threshold: 7 },
+];
+
+export class AchievementManager {
+  private static instance: AchievementManager;
+  private evaluation: Promise<unknown> = Promise.resolve(); // Counter updates and evaluations run one after another
+
+  private constructor() {}
+
+  static getInstance(): AchievementManager {
+    if (!AchievementManager.instance) {
+      AchievementManager.instance = new AchievementManager();
+    }
+    return AchievementManager.instance;
+  }
+
+  // Get the full catalog merged with unlock state from storage
+  async getAchievements(): Promise<Achievement[]> {
+    const focusStats = await storageManager.getFocusStats();
+    return this.mergeWithCatalog(focusStats?.achievements || []);
+  }
+
+  // Record a fed treat and re-evaluate achievements
+  async recordTreatFed(): Promise<Achievement[]> {
+    return this.incrementCounter('treatsFed');
+  }
+
+  // Record an honoured reminder and re-evaluate achievements
+  async recordReminderHonoured(): Promise<Achievement[]> {
+    return this.incrementCounter('remindersHonoured');
+  }
+
+  // Evaluate every catalog entry against current stats, persist and announce new unlocks.
+  // A call made during an evaluation waits for it, then evaluates the stats as they are by then.
+  async checkAchievements(): Promise<Achievement[]> {
+    return this.enqueue(() => this.evaluate());
+  }
+
+  // FocusStats read-modify-writes made here wait for the ones queued before them
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.evaluation.then(task);
+    this.evaluation = result.catch(() => undefined);
+    return result;
+  }
+
+  private async evaluate(): Promise<Achievement[]> {
+    try {
+      const focusStats = await storageManager.getFocusStats();
+      if (!focusStats) return [];
+
+      const metrics = await this.collectMetrics(focusStats);
+      const achievements = this.mergeWithCatalog(focusStats.achievements || []);
+      const newlyUnlocked: Achievement[] = [];
+      const now = Date.now();
+
+      for (const definition of ACHIEVEMENT_CATALOG) {
+        const achievement = achievements.find(a => a.id === definition.id);
+        if (!achievement || achievement.unlocked) continue;
+
+        if (metrics[definition.metric] >= definition.threshold) {
+          achievement.unlocked = true;
+          achievement.unlockedAt = now;
+          newlyUnlocked.push(achievement);
+        }
+      }
+
+      if (newlyUnlocked.length > 0) {
+        // Re-read stats so concurrent counter updates are not overwritten
+        const latestStats = await storageManager.getFocusStats();
+        await storageManager.setFocusStats({ ...(latestStats || focusStats), achievements });
+
+        for (const achievement of newlyUnlocked) {
+          console.log('focusPet: Achievement unlocked:', achievement.name);
+          // Let the pet announce the unlock in every tab with an overlay
+          await eventBus.emit('achievement:unlocked', { achievement });
+        }
+      }
+
+      return newlyUnlocked;
+    } catch (error) {
+      console.error('focusPet: Error checking achievements:', error);
+      return [];
+    }
+  }
+
+  private async incrementCounter(counter: 'treatsFed' | 'remindersHonoured'): Promise<Achievement[]> {
+    const counted = await this.enqueue(async () => {
+      const focusStats = await storageManager.getFocusStats();
+      if (!focusStats) return false;
+
+      focusStats[counter] = (focusStats[counter] || 0) + 1;
+      await storageManager.setFocusStats(focusStats);
+      return true;
+    });
+
+    return counted ? this.checkAchievements() : [];
+  }
+
+  private async collectMetrics(focusStats: FocusStats): Promise<Record<AchievementMetric, number>> {
+    const stories = await storageManager.getStories();
+    const storyNights = new Set(stories.map(story => story.date)).size;
+
+    return {
+      focusMinutes: focusStats.totalFocusTime || 0,
+      streakDays: Math.max(focusStats.currentStreak || 0, focusStats.longestStreak || 0),
+      treatsFed: focusStats.treatsFed || 0,
+      remindersHonoured: focusStats.remindersHonoured || 0,
+      storyNights,
+    };
+  }
+
+  // Stored entries keep their unlock state; catalog entries that were never stored start locked
+  private mergeWithCatalog(stored: Achievement[]): Achievement[] {
+    return ACHIEVEMENT_CATALOG.map(definition => {
+      const existing = stored.find(a => a.id === definition.id);
+      return {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        icon: definition.icon,
+        unlocked: existing?.unlocked ?? false,
+        unlockedAt: existing?.unlockedAt,
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const achievementManager = AchievementManager.getInstance();
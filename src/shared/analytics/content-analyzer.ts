@@ -1,87 +1,53 @@
-import { BrowsingActivity, ActivityType, FocusLevel } from '../types';
+import { BrowsingActivity, ActivityType, DomainRule, FocusLevel, PageClassificationSettings } from '../types';
 import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { toDateKey } from '../streaks/streak-manager';
+import { dailyActivityTracker } from './daily-activity-tracker';
+import { DEFAULT_PAGE_CLASSIFICATION, classifyPage, toStoredTitle } from './page-classifier';
 
-// Domain categorization mappings
-const DOMAIN_CATEGORIES: Record<string, ActivityType> = {
-  // Work/Productivity
-  'github.com': 'work',
-  'stackoverflow.com': 'work',
-  'docs.google.com': 'work',
-  'drive.google.com': 'work',
-  'calendar.google.com': 'work',
-  'mail.google.com': 'work',
-  'gmail.com': 'work',
-  'outlook.com': 'work',
-  'office.com': 'work',
-  'microsoft.com': 'work',
-  'notion.so': 'work',
-  'figma.com': 'work',
-  'slack.com': 'work',
-  'discord.com': 'work',
-  'zoom.us': 'work',
-  'teams.microsoft.com': 'work',
-  'meet.google.com': 'work',
-  
-  // Social Media
-  'twitter.com': 'social',
-  'x.com': 'social',
-  'linkedin.com': 'social',
-  'facebook.com': 'social',
-  'instagram.com': 'social',
-  'reddit.com': 'social',
-  'tiktok.com': 'social',
-  'snapchat.com': 'social',
-  
-  // Entertainment
-  'youtube.com': 'entertainment',
-  'netflix.com': 'entertainment',
-  'spotify.com': 'entertainment',
-  'twitch.tv': 'entertainment',
-  'disneyplus.com': 'entertainment',
-  'hulu.com': 'entertainment',
-  'steam.com': 'entertainment',
-  'roblox.com': 'entertainment',
-  
-  // Shopping
-  'amazon.com': 'shopping',
-  'ebay.com': 'shopping',
-  'etsy.com': 'shopping',
-  'walmart.com': 'shopping',
-  'target.com': 'shopping',
-  'bestbuy.com': 'shopping',
-  
-  // Research/Education
-  'wikipedia.org': 'research',
-  'medium.com': 'research',
-  'dev.to': 'research',
-  'css-tricks.com': 'research',
-  'mdn.io': 'research',
-  'developer.mozilla.org': 'research',
-  'coursera.org': 'research',
-  'udemy.com': 'research',
-  'khanacademy.org': 'research',
-  'edx.org': 'research',
-};
-
-// Focus level estimation based on domains
-const FOCUS_LEVELS: Record<ActivityType, FocusLevel> = {
-  work: 'high',
-  research: 'high',
-  social: 'medium',
-  entertainment: 'low',
-  shopping: 'medium',
-  general: 'medium',
-};
+const DEFAULT_RETENTION_DAYS = 7;
+// Domains kept per day in a rollup; enough for monthly top-5 lists
+const ROLLUP_DOMAIN_LIMIT = 20;
+
+function emptyBreakdown(): Record<ActivityType, number> {
+  return { work: 0, research: 0, social: 0, entertainment: 0, shopping: 0, general: 0 };
+}
+
+function topDomainsByTime(domainTime: Record<string, number>, limit: number): string[] {
+  return Object.entries(domainTime)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([domain]) => domain);
+}
+
+// Classification is fixed when the timer starts so a rule edit doesn't relabel time already spent
+interface TabTimer {
+  startTime: number;
+  domain: string;
+  activityType: ActivityType;
+  focusLevel: FocusLevel;
+  pageTitle: string; // already reduced to what title storage allows
+  titleHash?: string;
+}
 
 export class ContentAnalyzer {
   private activityLog: BrowsingActivity[] = [];
-  private tabTimers: Map<number, { startTime: number; domain: string }> = new Map();
+  private tabTimers: Map<number, TabTimer> = new Map();
+  private domainRules: DomainRule[] = [];
+  private pageClassification: PageClassificationSettings = DEFAULT_PAGE_CLASSIFICATION;
   private isEnabled: boolean = true;
   private isInitialized: boolean = false;
   private periodicTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     this.initialize();
+
+    // Follow the analytics toggle without waiting for a service worker restart
+    eventBus.on('settings:updated', ({ settings }) => {
+      this.domainRules = settings.domainRules ?? [];
+      this.pageClassification = { ...DEFAULT_PAGE_CLASSIFICATION, ...settings.pageClassification };
+      this.setEnabled(settings.analytics?.enabled ?? true);
+    });
   }
 
   private async initialize(): Promise<void> {
@@ -91,11 +57,14 @@ export class ContentAnalyzer {
       // Load settings
       const settings = await storageManager.getUserSettings();
       this.isEnabled = settings?.analytics?.enabled ?? true;
+      this.domainRules = settings?.domainRules ?? [];
+      this.pageClassification = { ...DEFAULT_PAGE_CLASSIFICATION, ...settings?.pageClassification };
       
       console.log('focusPet: Analytics enabled:', this.isEnabled);
       
-      // Load existing activity log
+      // Load existing activity log, compacting any days finished while we weren't running
       await this.loadActivityLog();
+      await this.rollUpActivity();
       
       // Start tracking if enabled
       if (this.isEnabled) {
@@ -148,7 +117,8 @@ export class ContentAnalyzer {
       
       // Track tab updates
       chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
-        if (changeInfo.status === 'complete' && tab.url) {
+        // Single-page apps often change the title after loading, which can change the category
+        if ((changeInfo.status === 'complete' || changeInfo.title) && tab.url) {
           this.handleTabUpdate(tabId, tab);
         }
       });
@@ -200,7 +170,10 @@ export class ContentAnalyzer {
     }
 
     const domain = this.extractDomain(tab.url);
-    const activityType = this.categorizeDomain(domain);
+    // The raw title never leaves this function; only the stored form goes into the timer
+    const classification = classifyPage(tab.url, tab.title, this.domainRules, this.pageClassification);
+    const { activityType, focusLevel } = classification;
+    const { pageTitle, titleHash } = await toStoredTitle(tab.title, classification, this.pageClassification.titleStorage);
 
     // Check if we already have a timer for this tab
     const existingTimer = this.tabTimers.get(tabId);
@@ -208,15 +181,23 @@ export class ContentAnalyzer {
     
     // Only start a new timer if:
     // 1. No existing timer for this tab, OR
-    // 2. Domain has changed (user navigated to a different website)
-    if (!existingTimer || existingTimer.domain !== domain) {
-      // If domain changed, log the previous activity first
-      if (existingTimer && existingTimer.domain !== domain) {
+    // 2. Domain has changed (user navigated to a different website), OR
+    // 3. The new page on the same site is classified differently or has a different stored title
+    const changed = existingTimer && (
+      existingTimer.domain !== domain ||
+      existingTimer.activityType !== activityType ||
+      existingTimer.focusLevel !== focusLevel ||
+      existingTimer.pageTitle !== pageTitle ||
+      existingTimer.titleHash !== titleHash
+    );
+    if (!existingTimer || changed) {
+      // If the page changed, log the previous activity first
+      if (existingTimer) {
         const timeSpent = Math.floor((Date.now() - existingTimer.startTime) / 1000); // seconds
         const timeInMinutes = Math.ceil(timeSpent / 60);
         if (timeSpent > 30) {
-          console.log(`focusPet: Domain changed from ${existingTimer.domain} to ${domain}, logging ${timeInMinutes} minutes`);
-          await this.logActivity(existingTimer.domain, timeInMinutes);
+          console.log(`focusPet: Page changed from ${existingTimer.domain} (${existingTimer.activityType}) to ${domain} (${activityType}), logging ${timeInMinutes} minutes`);
+          await this.logActivity(existingTimer, timeInMinutes);
         }
       }
       
@@ -224,7 +205,11 @@ export class ContentAnalyzer {
       const startTime = Date.now();
       this.tabTimers.set(tabId, {
         startTime,
-        domain
+        domain,
+        activityType,
+        focusLevel,
+        pageTitle,
+        titleHash
       });
 
       console.log(`focusPet: Started tracking tab ${tabId} on ${domain} (${activityType}) at ${new Date(startTime).toISOString()}`);
@@ -258,7 +243,7 @@ export class ContentAnalyzer {
         const timeSpent = Math.floor((Date.now() - timer.startTime) / 1000); // seconds
         const timeInMinutes = Math.ceil(timeSpent / 60);
         if (timeSpent > 30) {
-          await this.logActivity(timer.domain, timeInMinutes);
+          await this.logActivity(timer, timeInMinutes);
           console.log(`focusPet: Tab ${tabId} to be removed, logged ${timeInMinutes} minutes`);
         }
         this.tabTimers.delete(tabId);
@@ -285,7 +270,7 @@ export class ContentAnalyzer {
           const timeInMinutes = Math.ceil(timeSpent / 60);
           if (timeSpent > 30) { // At least 30 seconds
             console.log(`focusPet: User away - logging final activity for ${timer.domain}: ${timeInMinutes} minutes`);
-            await this.logActivity(timer.domain, timeInMinutes);
+            await this.logActivity(timer, timeInMinutes);
           }
         }
         // Clear all timers since user is away
@@ -312,7 +297,7 @@ export class ContentAnalyzer {
             const timeInMinutes = Math.ceil(timeSpent / 60);
                          if (timeSpent >= 30) { // Log if at least 30 seconds spent
                console.log(`focusPet: Logging activity for ${timer.domain} (${timeInMinutes} minutes)`);
-               await this.logActivity(timer.domain, timeInMinutes); // Pass time in minutes
+               await this.logActivity(timer, timeInMinutes); // Pass time in minutes
               timer.startTime = now; // Reset timer to current time
               console.log(`focusPet: Timer reset for tab ${tab.id} to ${new Date(timer.startTime).toISOString()}`);
             } else {
@@ -333,26 +318,22 @@ export class ContentAnalyzer {
     }
   }
 
-  private async logActivity(domain: string, timeSpent: number): Promise<void> {
+  private async logActivity(timer: TabTimer, timeSpent: number): Promise<void> {
     try {
-      const activityType = this.categorizeDomain(domain);
-      const focusLevel = this.estimateFocusLevel(activityType);
+      const { domain, activityType, focusLevel, pageTitle, titleHash } = timer;
 
       const activity: BrowsingActivity = {
         domain,
-        pageTitle: '', // We don't store page titles for privacy
+        pageTitle,
+        ...(titleHash && { titleHash }),
         timeSpent,
         focusLevel,
         activityType,
         timestamp: Date.now()
       };
 
+      // Old entries are pruned by the nightly rollup, after they have been compacted
       this.activityLog.push(activity);
-      
-      // Keep only last 7 days of data
-      const sevenDaysAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
-      this.activityLog = this.activityLog.filter(activity => activity.timestamp > sevenDaysAgo);
-
       await this.saveActivityLog();
       
       console.log(`focusPet: Logged activity - ${domain} (${activityType}) for ${timeSpent} minutes`);
@@ -369,46 +350,10 @@ export class ContentAnalyzer {
     }
   }
 
-  private categorizeDomain(domain: string): ActivityType {
-    // Check exact domain match first
-    if (DOMAIN_CATEGORIES[domain]) {
-      return DOMAIN_CATEGORIES[domain];
-    }
-
-    // Check partial domain matches
-    for (const [knownDomain, category] of Object.entries(DOMAIN_CATEGORIES)) {
-      if (domain.includes(knownDomain) || knownDomain.includes(domain)) {
-        return category;
-      }
-    }
-
-    // Default categorization based on domain patterns
-    if (domain.includes('github') || domain.includes('gitlab')) return 'work';
-    if (domain.includes('stackoverflow') || domain.includes('stackexchange')) return 'work';
-    if (domain.includes('google.com') || domain.includes('gmail')) return 'work';
-    if (domain.includes('microsoft.com') || domain.includes('office.com')) return 'work';
-    if (domain.includes('slack.com') || domain.includes('discord.com')) return 'work';
-    if (domain.includes('zoom.us') || domain.includes('teams')) return 'work';
-    if (domain.includes('atlassian.net') || domain.includes('sironagenomics.com')) return 'work';
-    
-    if (domain.includes('twitter') || domain.includes('x.com')) return 'social';
-    if (domain.includes('linkedin') || domain.includes('facebook')) return 'social';
-    if (domain.includes('instagram') || domain.includes('reddit')) return 'social';
-    
-    if (domain.includes('youtube') || domain.includes('netflix')) return 'entertainment';
-    if (domain.includes('spotify') || domain.includes('twitch')) return 'entertainment';
-    
-    if (domain.includes('amazon') || domain.includes('ebay')) return 'shopping';
-    if (domain.includes('walmart') || domain.includes('target')) return 'shopping';
-    
-    if (domain.includes('wikipedia') || domain.includes('medium')) return 'research';
-    if (domain.includes('coursera') || domain.includes('udemy')) return 'research';
-
-    return 'general';
-  }
-
-  private estimateFocusLevel(activityType: ActivityType): FocusLevel {
-    return FOCUS_LEVELS[activityType] || 'medium';
+  // Classify a URL for callers outside the analyzer (e.g. focus accrual gating)
+  public classifyUrl(url: string, title?: string): ActivityType | null {
+    if (!this.isValidUrl(url)) return null;
+    return classifyPage(url, title, this.domainRules, this.pageClassification).activityType;
   }
 
   private isValidUrl(url: string): boolean {
@@ -430,45 +375,51 @@ export class ContentAnalyzer {
     );
   }
 
+  // Totals for the last `days` calendar days including today. Finished days come from their
+  // DailyActivity rollups, so month-long ranges don't need the raw log.
   public async getActivitySummary(days: number = 7): Promise<{
     totalTime: number;
     activityBreakdown: Record<ActivityType, number>;
     topDomains: string[];
   }> {
+    const activityBreakdown = emptyBreakdown();
     try {
-      const cutoffTime = Date.now() - (days * 24 * 60 * 60 * 1000);
-      const recentActivities = this.activityLog.filter(activity => activity.timestamp > cutoffTime);
-
-      // Convert seconds to minutes for summary
-      const totalTime = recentActivities.reduce((sum, activity) => sum + Math.ceil(activity.timeSpent / 60), 0);
-      
-      const activityBreakdown: Record<ActivityType, number> = {
-        work: 0,
-        research: 0,
-        social: 0,
-        entertainment: 0,
-        shopping: 0,
-        general: 0
-      };
-
-      const domainCounts: Record<string, number> = {};
+      const today = new Date();
+      const firstDate = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1)));
+      const rollups = await dailyActivityTracker.getRollups(firstDate);
+      const rolledUpDates = new Set(rollups.map(day => day.date));
+
+      const domainTime: Record<string, number> = {};
+      let totalTime = 0;
+
+      for (const day of rollups) {
+        totalTime += day.browsingTime;
+        for (const type of Object.keys(activityBreakdown) as ActivityType[]) {
+          activityBreakdown[type] += day.activityBreakdown[type] || 0;
+        }
+        for (const [domain, minutes] of Object.entries(day.domainTime)) {
+          domainTime[domain] = (domainTime[domain] || 0) + minutes;
+        }
+      }
 
-      recentActivities.forEach(activity => {
-        // Convert seconds to minutes for breakdown
-        const timeInMinutes = Math.ceil(activity.timeSpent / 60);
-        activityBreakdown[activity.activityType] += timeInMinutes;
-        domainCounts[activity.domain] = (domainCounts[activity.domain] || 0) + timeInMinutes;
+      // Today, plus any finished day the nightly rollup hasn't reached yet
+      const recentActivities = this.activityLog.filter(activity => {
+        const date = toDateKey(new Date(activity.timestamp));
+        return date >= firstDate && !rolledUpDates.has(date);
       });
+      for (const activity of recentActivities) {
+        totalTime += activity.timeSpent;
+        activityBreakdown[activity.activityType] += activity.timeSpent;
+        domainTime[activity.domain] = (domainTime[activity.domain] || 0) + activity.timeSpent;
+      }
 
-      const topDomains = Object.entries(domainCounts)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 5)
-        .map(([domain]) => domain);
+      const topDomains = topDomainsByTime(domainTime, 5);
 
       console.log('focusPet: Activity summary generated:', {
         totalTime,
         activityBreakdown,
         topDomains,
+        rolledUpDays: rollups.length,
         recentActivitiesCount: recentActivities.length
       });
 
@@ -481,22 +432,73 @@ export class ContentAnalyzer {
       console.warn('focusPet: Error getting activity summary:', error);
       return {
         totalTime: 0,
-        activityBreakdown: {
-          work: 0,
-          research: 0,
-          social: 0,
-          entertainment: 0,
-          shopping: 0,
-          general: 0
-        },
+        activityBreakdown: emptyBreakdown(),
         topDomains: []
       };
     }
   }
 
+  // Nightly job: compact each finished day of raw activity into its DailyActivity rollup, then
+  // drop raw entries that are past the user's retention window
+  public async rollUpActivity(): Promise<void> {
+    try {
+      const today = toDateKey(new Date());
+      const rolledUpDates = await dailyActivityTracker.getRolledUpDates();
+      const ledger = await storageManager.getFocusLedger();
+
+      const byDay = new Map<string, BrowsingActivity[]>();
+      for (const activity of this.activityLog) {
+        const date = toDateKey(new Date(activity.timestamp));
+        if (date < today && !rolledUpDates.has(date)) {
+          byDay.set(date, [...(byDay.get(date) || []), activity]);
+        }
+      }
+
+      for (const [date, activities] of byDay) {
+        const activityBreakdown = emptyBreakdown();
+        const domainTime: Record<string, number> = {};
+        for (const activity of activities) {
+          activityBreakdown[activity.activityType] += activity.timeSpent;
+          domainTime[activity.domain] = (domainTime[activity.domain] || 0) + activity.timeSpent;
+        }
+
+        const keptDomains = topDomainsByTime(domainTime, ROLLUP_DOMAIN_LIMIT);
+        await dailyActivityTracker.saveRollup(date, {
+          totalFocusTime: ledger.days[date] || 0,
+          browsingTime: activities.reduce((sum, activity) => sum + activity.timeSpent, 0),
+          topDomains: keptDomains.slice(0, 5),
+          domainTime: Object.fromEntries(keptDomains.map(domain => [domain, domainTime[domain]])),
+          activityBreakdown,
+        });
+      }
+
+      const pruned = await this.pruneActivityLog();
+      console.log(`focusPet: Rolled up ${byDay.size} day(s) of activity, pruned ${pruned} raw entries`);
+    } catch (error) {
+      console.error('focusPet: Error rolling up activity:', error);
+    }
+  }
+
+  // Raw entries are kept for whole days, `dataRetentionDays` back from today
+  private async pruneActivityLog(): Promise<number> {
+    const settings = await storageManager.getUserSettings();
+    const retentionDays = settings?.analytics?.dataRetentionDays ?? DEFAULT_RETENTION_DAYS;
+    const today = new Date();
+    const cutoff = new Date(today.getFullYear(), today.getMonth(), today.getDate() - retentionDays).getTime();
+
+    const before = this.activityLog.length;
+    this.activityLog = this.activityLog.filter(activity => activity.timestamp >= cutoff);
+    if (this.activityLog.length !== before) {
+      await this.saveActivityLog();
+    }
+    return before - this.activityLog.length;
+  }
+
+  // Clears the rolled-up per-day browsing history as well as the raw log
   public async clearActivityLog(): Promise<void> {
     this.activityLog = [];
     await this.saveActivityLog();
+    await dailyActivityTracker.clearBrowsingHistory();
     console.log('focusPet: Activity log cleared');
   }
 
@@ -0,0 +1,238 @@
+import { ActivityType, DailyActivity, DailyActivityLog, DailyRollup, DistractionOutcome } from './types';
+import { ReminderHistoryAction } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { toDateKey } from '../streaks/streak-manager';
+
+// A break only counts if the user steps away within this long of the reminder...
+const BREAK_START_WINDOW_MS = 10 * 60 * 1000;
+// ...and stays away at least this long (the 20-20-20 eye rest is the shortest break we suggest)
+const MIN_BREAK_MS = 20 * 1000;
+const RETENTION_DAYS = 400;
+
+type ReminderCounter = 'remindersTriggered' | 'remindersAcknowledged' | 'remindersSnoozed' | 'remindersSkipped' | 'remindersDismissed';
+
+const REMINDER_COUNTERS: Partial<Record<ReminderHistoryAction, ReminderCounter>> = {
+  triggered: 'remindersTriggered',
+  completed: 'remindersAcknowledged',
+  snoozed: 'remindersSnoozed',
+  skipped: 'remindersSkipped',
+  dismissed: 'remindersDismissed',
+};
+
+function emptyDay(date: string): DailyActivity {
+  return {
+    date,
+    petType: '',
+    totalFocusTime: 0,
+    treatsEarned: 0,
+    breaksTaken: 0,
+    remindersTriggered: 0,
+    remindersAcknowledged: 0,
+    remindersSnoozed: 0,
+    remindersSkipped: 0,
+    remindersDismissed: 0,
+    petInteractions: 0,
+    petMood: '',
+    distractions: [],
+    browsingTime: 0,
+    topDomains: [],
+    domainTime: {},
+    activityBreakdown: { work: 0, research: 0, social: 0, entertainment: 0, shopping: 0, general: 0 },
+    focusSessions: [],
+  };
+}
+
+export class DailyActivityTracker {
+  private static instance: DailyActivityTracker;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    eventBus.on('focus:treatEarned', ({ treats }) => {
+      this.updateToday(day => {
+        day.treatsEarned += treats;
+      });
+    });
+  }
+
+  static getInstance(): DailyActivityTracker {
+    if (!DailyActivityTracker.instance) {
+      DailyActivityTracker.instance = new DailyActivityTracker();
+    }
+    return DailyActivityTracker.instance;
+  }
+
+  // Records for the last `days` days including today, oldest first; days without activity are zeroed
+  async getRange(days: number): Promise<DailyActivity[]> {
+    await this.pendingWrite;
+    const log = await storageManager.getDailyActivityLog();
+    const today = new Date();
+    const range: DailyActivity[] = [];
+
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset));
+      range.push(log.days[date] ?? emptyDay(date));
+    }
+    return range;
+  }
+
+  // Rolled-up days on or after `fromDate` (YYYY-MM-DD), oldest first
+  async getRollups(fromDate: string): Promise<DailyActivity[]> {
+    await this.pendingWrite;
+    const log = await storageManager.getDailyActivityLog();
+    return Object.values(log.days)
+      .filter(day => day.rolledUp && day.date >= fromDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getRolledUpDates(): Promise<Set<string>> {
+    await this.pendingWrite;
+    const log = await storageManager.getDailyActivityLog();
+    return new Set(Object.values(log.days).filter(day => day.rolledUp).map(day => day.date));
+  }
+
+  // Store a finished day's browsing aggregates next to its counters
+  async saveRollup(date: string, rollup: DailyRollup): Promise<void> {
+    await this.update(log => {
+      Object.assign(this.getDay(log, date), rollup, { rolledUp: true });
+    });
+  }
+
+  // Forget which sites were visited on every day, rolled up or not; focus, pet and reminder counters stay
+  async clearBrowsingHistory(): Promise<void> {
+    await this.update(log => {
+      for (const day of Object.values(log.days)) {
+        const empty = emptyDay(day.date);
+        day.browsingTime = empty.browsingTime;
+        day.topDomains = empty.topDomains;
+        day.domainTime = empty.domainTime;
+        day.activityBreakdown = empty.activityBreakdown;
+        day.distractions = empty.distractions;
+        delete day.rolledUp;
+      }
+    });
+  }
+
+  async recordReminderAction(action: ReminderHistoryAction): Promise<void> {
+    const counter = REMINDER_COUNTERS[action];
+    if (!counter) return;
+
+    await this.updateToday(day => {
+      day[counter]++;
+    });
+  }
+
+  async recordPetInteraction(): Promise<void> {
+    await this.updateToday(day => {
+      day.petInteractions++;
+    });
+  }
+
+  // The focus guard interrupted a visit to `domain`
+  async recordDistraction(domain: string, activityType: ActivityType): Promise<void> {
+    await this.updateToday(day => {
+      day.distractions = [...(day.distractions ?? []), { domain, activityType, timestamp: Date.now() }];
+    });
+  }
+
+  // How the user answered the latest unanswered interruption for `domain` today
+  async resolveDistraction(domain: string, outcome: DistractionOutcome): Promise<void> {
+    await this.updateToday(day => {
+      const event = [...(day.distractions ?? [])].reverse().find(e => e.domain === domain && !e.outcome);
+      if (event) {
+        event.outcome = outcome;
+      }
+    });
+  }
+
+  async countDistractionsToday(domain: string): Promise<number> {
+    const [today] = await this.getRange(1);
+    return (today.distractions ?? []).filter(event => event.domain === domain).length;
+  }
+
+  // A break reminder was delivered; see whether the user actually steps away
+  async watchForBreak(): Promise<void> {
+    await this.update(log => {
+      log.breakWatch = { remindedAt: Date.now() };
+    });
+  }
+
+  // The user went idle, locked the screen or left the browser at `since`
+  async markAway(since: number = Date.now()): Promise<void> {
+    await this.update(log => {
+      const watch = log.breakWatch;
+      if (!watch || watch.awaySince) return;
+
+      if (since - watch.remindedAt > BREAK_START_WINDOW_MS) {
+        delete log.breakWatch; // Ignored the reminder
+      } else {
+        watch.awaySince = Math.max(since, watch.remindedAt);
+      }
+    });
+  }
+
+  // The user is back; count the gap as a break if it was long enough
+  async markBack(): Promise<void> {
+    const now = Date.now();
+    await this.update(log => {
+      const watch = log.breakWatch;
+      if (!watch) return;
+
+      if (watch.awaySince && now - watch.awaySince >= MIN_BREAK_MS) {
+        this.getDay(log, toDateKey(new Date(watch.awaySince))).breaksTaken++;
+        delete log.breakWatch;
+        console.log('focusPet: Break taken after reminder, away for', Math.round((now - watch.awaySince) / 1000), 'seconds');
+      } else if (now - watch.remindedAt > BREAK_START_WINDOW_MS) {
+        delete log.breakWatch;
+      } else {
+        delete watch.awaySince; // Too short; keep watching
+      }
+    });
+  }
+
+  private async updateToday(mutate: (day: DailyActivity) => void): Promise<void> {
+    const petState = await storageManager.getPetState();
+    await this.update(log => {
+      const day = this.getDay(log, toDateKey(new Date()));
+      if (petState) {
+        day.petType = petState.type;
+        day.petMood = petState.mood;
+      }
+      mutate(day);
+    });
+  }
+
+  // Writes come from several listeners at once; run them one after another so none is lost
+  private async update(mutate: (log: DailyActivityLog) => void): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const log = await storageManager.getDailyActivityLog();
+      mutate(log);
+      this.prune(log);
+      await storageManager.setDailyActivityLog(log);
+    });
+    this.pendingWrite = write.catch(error => {
+      console.error('focusPet: Error updating daily activity:', error);
+    });
+    await this.pendingWrite;
+  }
+
+  private getDay(log: DailyActivityLog, date: string): DailyActivity {
+    if (!log.days[date]) {
+      log.days[date] = emptyDay(date);
+    }
+    return log.days[date];
+  }
+
+  private prune(log: DailyActivityLog): void {
+    const today = new Date();
+    const cutoff = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - RETENTION_DAYS));
+    for (const date of Object.keys(log.days)) {
+      if (date < cutoff) {
+        delete log.days[date];
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const dailyActivityTracker = DailyActivityTracker.getInstance();
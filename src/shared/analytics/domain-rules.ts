@@ -0,0 +1,236 @@
+import { ActivityType, DomainRule, DomainRuleMatch, DomainRuleSet, FocusLevel } from '../types';
+import { DOMAIN_CATEGORIES, FOCUS_LEVELS } from './types';
+
+export interface UrlClassification {
+  activityType: ActivityType;
+  focusLevel: FocusLevel;
+  ruleId?: string; // the user rule that matched, if any
+}
+
+export const ACTIVITY_TYPES: ActivityType[] = ['work', 'research', 'social', 'entertainment', 'shopping', 'general'];
+export const FOCUS_LEVEL_OPTIONS: FocusLevel[] = ['high', 'medium', 'low'];
+export const DOMAIN_RULE_MATCHES: DomainRuleMatch[] = ['exact', 'suffix', 'wildcard', 'pathPrefix', 'regex'];
+
+// Public suffixes with more than one label that users are likely to type. Single labels
+// ("com", "io") are caught by the dot check, so a rule can never cover a whole TLD.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'ltd.uk', 'plc.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'co.jp', 'ne.jp', 'or.jp', 'ac.jp',
+  'co.in', 'co.kr', 'co.za', 'co.il', 'com.br', 'com.cn', 'com.mx', 'com.sg', 'com.tr', 'com.hk', 'com.tw',
+]);
+
+const HOSTNAME_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+const WILDCARD_PATTERN = /^[a-z0-9*.-]+$/;
+
+// Built-in sites as suffix rules, most specific first so docs.google.com beats a bare google.com
+const BUILT_IN_RULES: Array<{ domain: string; activityType: ActivityType }> = Object.entries(DOMAIN_CATEGORIES)
+  .map(([domain, activityType]) => ({ domain, activityType }))
+  .sort((a, b) => b.domain.split('.').length - a.domain.split('.').length);
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function isPublicSuffix(domain: string): boolean {
+  return !domain.includes('.') || MULTI_LABEL_SUFFIXES.has(domain);
+}
+
+// True when `hostname` is `domain` or one of its subdomains; "notgithub.com" is not under "github.com"
+export function isWithinDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function stripWww(hostname: string): string {
+  return hostname.startsWith('www.') ? hostname.slice(4) : hostname;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitPathPattern(pattern: string): { host: string; path: string } {
+  const slash = pattern.indexOf('/');
+  return {
+    host: pattern.slice(0, slash).toLowerCase(),
+    path: pattern.slice(slash),
+  };
+}
+
+function compile(match: DomainRuleMatch, pattern: string): RegExp | null {
+  const key = `${match}:${pattern}`;
+  if (!compiledPatterns.has(key)) {
+    try {
+      compiledPatterns.set(key, match === 'wildcard'
+        ? new RegExp(`^${pattern.toLowerCase().split('*').map(escapeRegExp).join('.*')}$`)
+        : new RegExp(pattern, 'i'));
+    } catch {
+      compiledPatterns.set(key, null);
+    }
+  }
+  return compiledPatterns.get(key) ?? null;
+}
+
+function matchesRule(rule: DomainRule, hostname: string, pathname: string): boolean {
+  const pattern = rule.pattern.trim();
+
+  switch (rule.match) {
+    case 'exact':
+      return stripWww(hostname) === stripWww(pattern.toLowerCase());
+    case 'suffix':
+      return isWithinDomain(hostname, pattern.toLowerCase());
+    case 'wildcard':
+      return compile('wildcard', pattern)?.test(hostname) ?? false;
+    case 'pathPrefix': {
+      const { host, path } = splitPathPattern(pattern);
+      return isWithinDomain(hostname, host) && pathname.startsWith(path);
+    }
+    case 'regex':
+      return compile('regex', pattern)?.test(`${hostname}${pathname}`) ?? false;
+  }
+}
+
+// Checks a domain that should cover itself and its subdomains, e.g. example.com
+export function validateSiteDomain(domain: string): string | null {
+  if (!HOSTNAME_PATTERN.test(domain)) {
+    return 'Enter a host name such as docs.example.com, without "https://" or a path.';
+  }
+  if (isPublicSuffix(domain)) {
+    return `"${domain}" is a public suffix and would match every site under it.`;
+  }
+  return null;
+}
+
+// Site lists (overlay, focus guard) take a domain covering its subdomains, or a host wildcard
+export function validateSitePattern(pattern: string): string | null {
+  return pattern.includes('*')
+    ? validateDomainRule({ id: '', match: 'wildcard', pattern, activityType: 'general', priority: 0, enabled: true })
+    : validateSiteDomain(pattern);
+}
+
+export function matchesSitePattern(hostname: string, pattern: string): boolean {
+  return pattern.includes('*')
+    ? compile('wildcard', pattern)?.test(hostname) ?? false
+    : isWithinDomain(hostname, pattern);
+}
+
+// Why a rule can't be used, or null when it's fine
+export function validateDomainRule(rule: DomainRule): string | null {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return 'Enter a pattern.';
+  }
+  if (!DOMAIN_RULE_MATCHES.includes(rule.match)) {
+    return `Unknown match type "${rule.match}".`;
+  }
+  if (!ACTIVITY_TYPES.includes(rule.activityType)) {
+    return `Unknown category "${rule.activityType}".`;
+  }
+  if (rule.focusLevel !== undefined && !FOCUS_LEVEL_OPTIONS.includes(rule.focusLevel)) {
+    return `Unknown focus level "${rule.focusLevel}".`;
+  }
+  if (!Number.isFinite(rule.priority)) {
+    return 'Priority must be a number.';
+  }
+
+  const lowered = pattern.toLowerCase();
+  switch (rule.match) {
+    case 'exact':
+      return HOSTNAME_PATTERN.test(lowered)
+        ? null
+        : 'Enter a host name such as docs.example.com, without "https://" or a path.';
+    case 'suffix':
+      return validateSiteDomain(lowered);
+    case 'wildcard': {
+      if (!lowered.includes('*') || !WILDCARD_PATTERN.test(lowered)) {
+        return 'Use a host name with * wildcards, such as *.example.com.';
+      }
+      const literalTail = lowered.replace(/^[*.]+/, '');
+      if (!literalTail || (!literalTail.includes('*') && isPublicSuffix(literalTail))) {
+        return `"${pattern}" would match every site under a public suffix.`;
+      }
+      return null;
+    }
+    case 'pathPrefix': {
+      if (!pattern.includes('/')) {
+        return 'Enter a host and path such as github.com/notifications.';
+      }
+      const { host } = splitPathPattern(pattern);
+      if (!HOSTNAME_PATTERN.test(host)) {
+        return 'The part before the first / must be a host name.';
+      }
+      if (isPublicSuffix(host)) {
+        return `"${host}" is a public suffix and would match every site under it.`;
+      }
+      return null;
+    }
+    case 'regex':
+      return compile('regex', pattern) ? null : 'This regular expression is not valid.';
+  }
+}
+
+// User rules first (highest priority wins, ties keep list order), then the built-in list
+export function classifyUrl(url: string, rules: DomainRule[]): UrlClassification {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { activityType: 'general', focusLevel: FOCUS_LEVELS.general };
+  }
+  const hostname = parsed.hostname.toLowerCase();
+
+  const userRule = rules
+    .filter(rule => rule.enabled && validateDomainRule(rule) === null)
+    .sort((a, b) => b.priority - a.priority)
+    .find(rule => matchesRule(rule, hostname, parsed.pathname));
+  if (userRule) {
+    return {
+      activityType: userRule.activityType,
+      focusLevel: userRule.focusLevel ?? FOCUS_LEVELS[userRule.activityType],
+      ruleId: userRule.id,
+    };
+  }
+
+  const builtIn = BUILT_IN_RULES.find(rule => isWithinDomain(hostname, rule.domain));
+  const activityType = builtIn?.activityType ?? 'general';
+  return { activityType, focusLevel: FOCUS_LEVELS[activityType] };
+}
+
+export function createDomainRuleId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+export function exportDomainRules(rules: DomainRule[]): string {
+  const ruleSet: DomainRuleSet = { version: 1, exportedAt: Date.now(), rules };
+  return JSON.stringify(ruleSet, null, 2);
+}
+
+// Parse an exported rules file; throws with a message naming the first bad rule
+export function importDomainRules(json: string): DomainRule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const ruleSet = data as Partial<DomainRuleSet> | null;
+  if (!ruleSet || ruleSet.version !== 1 || !Array.isArray(ruleSet.rules)) {
+    throw new Error('The file is not a focusPet rules export.');
+  }
+
+  return ruleSet.rules.map((raw, index) => {
+    const rule: DomainRule = {
+      id: createDomainRuleId(), // Fresh ids so importing the same file twice can't collide
+      match: raw?.match,
+      pattern: typeof raw?.pattern === 'string' ? raw.pattern.trim() : '',
+      activityType: raw?.activityType,
+      focusLevel: raw?.focusLevel ?? undefined,
+      priority: typeof raw?.priority === 'number' ? raw.priority : 0,
+      enabled: raw?.enabled ?? true,
+    };
+    const error = validateDomainRule(rule);
+    if (error) {
+      throw new Error(`Rule ${index + 1}: ${error}`);
+    }
+    return rule;
+  });
+}
@@ -0,0 +1,122 @@
+import { ActivityType, ClassificationDepth, DomainRule, FocusLevel, PageClassificationSettings, TitleStorage } from '../types';
+import { UrlClassification, classifyUrl, isWithinDomain } from './domain-rules';
+
+export interface PageClassification extends UrlClassification {
+  depth: ClassificationDepth;
+  keywords: string[]; // title keywords that matched; empty unless the title was read
+}
+
+export interface StoredTitle {
+  pageTitle: string;
+  titleHash?: string;
+}
+
+export const DEFAULT_PAGE_CLASSIFICATION: PageClassificationSettings = {
+  enabled: false,
+  titleStorage: 'none',
+  domainDepth: {},
+};
+
+// Sections of well-known sites that behave differently from the rest of the site
+const PATH_HINTS: Array<{ domain: string; pathPrefix: string; activityType: ActivityType; focusLevel: FocusLevel }> = [
+  { domain: 'github.com', pathPrefix: '/notifications', activityType: 'work', focusLevel: 'medium' },
+  { domain: 'youtube.com', pathPrefix: '/shorts', activityType: 'entertainment', focusLevel: 'low' },
+  { domain: 'linkedin.com', pathPrefix: '/learning', activityType: 'research', focusLevel: 'high' },
+  { domain: 'google.com', pathPrefix: '/search', activityType: 'research', focusLevel: 'medium' },
+  { domain: 'amazon.com', pathPrefix: '/gp/video', activityType: 'entertainment', focusLevel: 'low' },
+];
+
+// Titles can only lift a leisure site into research, or place an uncategorized page
+const RESEARCH_KEYWORDS = [
+  'tutorial', 'course', 'lecture', 'lesson', 'documentation', 'how to', 'explained', 'guide',
+  'walkthrough', 'crash course', 'webinar', 'conference talk',
+];
+const ENTERTAINMENT_KEYWORDS = ['trailer', 'music video', 'funny', 'prank', 'reaction', 'gameplay', 'highlights', 'full episode'];
+const TITLE_REFINABLE: ActivityType[] = ['entertainment', 'social', 'general'];
+
+function findKeywords(title: string, keywords: string[]): string[] {
+  const normalized = title.toLowerCase();
+  return keywords.filter(keyword => new RegExp(`\\b${keyword}\\b`).test(normalized));
+}
+
+// Site overrides win (most specific first); otherwise the opt-in decides
+export function resolveDepth(hostname: string, settings: PageClassificationSettings): ClassificationDepth {
+  const override = Object.keys(settings.domainDepth)
+    .filter(domain => isWithinDomain(hostname, domain))
+    .sort((a, b) => b.length - a.length)[0];
+  if (override) return settings.domainDepth[override];
+  return settings.enabled ? 'title' : 'domain';
+}
+
+// User rules always apply as written; the depth only limits the automatic path and title checks
+export function classifyPage(
+  url: string,
+  title: string | undefined,
+  rules: DomainRule[],
+  settings: PageClassificationSettings
+): PageClassification {
+  const base = classifyUrl(url, rules);
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { ...base, depth: 'domain', keywords: [] };
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  const depth = resolveDepth(hostname, settings);
+  const readsPath = depth !== 'domain';
+  const researchWords = depth === 'title' && title ? findKeywords(title, RESEARCH_KEYWORDS) : [];
+  const leisureWords = depth === 'title' && title ? findKeywords(title, ENTERTAINMENT_KEYWORDS) : [];
+  const keywords = [...researchWords, ...leisureWords];
+
+  if (base.ruleId) {
+    return { ...base, depth, keywords };
+  }
+
+  let classification: UrlClassification = base;
+  const hint = readsPath
+    ? PATH_HINTS.find(h => isWithinDomain(hostname, h.domain) && parsed.pathname.startsWith(h.pathPrefix))
+    : undefined;
+  if (hint) {
+    classification = { activityType: hint.activityType, focusLevel: hint.focusLevel };
+  }
+
+  if (TITLE_REFINABLE.includes(classification.activityType)) {
+    if (researchWords.length > 0) {
+      classification = { activityType: 'research', focusLevel: 'high' };
+    } else if (leisureWords.length > 0 && classification.activityType === 'general') {
+      classification = { activityType: 'entertainment', focusLevel: 'low' };
+    }
+  }
+
+  return { ...classification, depth, keywords };
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Reduce a title to what the user allowed us to keep. Hashes let repeat visits to the same
+// page be grouped, but common titles can be guessed, so they are not a secrecy guarantee.
+export async function toStoredTitle(
+  title: string | undefined,
+  classification: PageClassification,
+  storage: TitleStorage
+): Promise<StoredTitle> {
+  if (!title || classification.depth !== 'title') {
+    return { pageTitle: '' };
+  }
+
+  switch (storage) {
+    case 'raw':
+      return { pageTitle: title };
+    case 'redacted':
+      return { pageTitle: classification.keywords.join(', ') };
+    case 'hashed':
+      return { pageTitle: '', titleHash: await sha256(title.trim().toLowerCase()) };
+    case 'none':
+      return { pageTitle: '' };
+  }
+}
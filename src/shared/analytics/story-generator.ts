@@ -1,4 +1,4 @@
-import { AnalyticsData } from './types';
+import { AnalyticsData, DailyActivity } from './types';
 
 export interface StoryData {
   title: string;
@@ -47,7 +47,7 @@ export class StoryGenerator {
     }
   };
 
-  static generateStory(analytics: AnalyticsData, type: 'daily' | 'weekly'): StoryData {
+  static generateStory(analytics: AnalyticsData, type: 'daily' | 'weekly', activity: DailyActivity[]): StoryData {
     const mood = this.determineMood(analytics);
     const templates = this.STORY_TEMPLATES[type][mood];
     const template = templates[Math.floor(Math.random() * templates.length)];
@@ -55,11 +55,15 @@ export class StoryGenerator {
     const domains = this.formatDomains(analytics.topDomains);
     const totalTime = this.formatTime(analytics.totalTime);
     
-    // Generate realistic pet data
-    const treats = Math.max(1, Math.floor(analytics.totalTime / 60)); // 1 treat per hour
-    const breaks = Math.max(1, Math.floor(analytics.totalTime / 45)); // 1 break per 45 minutes
-    const reminders = Math.max(1, Math.floor(analytics.totalTime / 120)); // 1 reminder per 2 hours
-    const interactions = Math.max(5, Math.floor(analytics.totalTime / 10)); // 1 interaction per 10 minutes, min 5
+    // Real counters recorded over the story's period
+    const total = (field: 'treatsEarned' | 'breaksTaken' | 'remindersTriggered' | 'petInteractions') =>
+      activity.reduce((sum, day) => sum + day[field], 0);
+    const treats = total('treatsEarned');
+    const breaks = total('breaksTaken');
+    const reminders = total('remindersTriggered');
+    const interactions = total('petInteractions');
+    const distractions = activity.flatMap(day => day.distractions ?? []);
+    const wentBack = distractions.filter(event => event.outcome === 'wentBack').length;
     
     const content = template
       .replace('{domains}', domains)
@@ -68,7 +72,10 @@ export class StoryGenerator {
       .replace('{breaks}', breaks.toString())
       .replace('{reminders}', reminders.toString())
       .replace('{interactions}', interactions.toString())
-      .replace('{mood}', mood);
+      .replace('{mood}', mood)
+      + (distractions.length > 0
+        ? ` I got worried ${distractions.length} time${distractions.length === 1 ? '' : 's'} when my human wandered off during focus time, and they went back to work ${wentBack} of those times.`
+        : '');
 
     const title = this.generateTitle(type, mood);
     const summary = this.generateSummary(analytics);
@@ -13,6 +13,7 @@ export interface AnalyticsData {
 export interface BrowsingActivity {
   domain: string;
   pageTitle: string;
+  titleHash?: string;
   timeSpent: number; // minutes
   focusLevel: FocusLevel;
   activityType: ActivityType;
@@ -25,18 +26,45 @@ export interface DailyActivity {
   petType: string;
   totalFocusTime: number; // minutes
   treatsEarned: number;
-  breaksTaken: number;
+  breaksTaken: number; // stepped away after a break reminder
   remindersTriggered: number;
-  petInteractions: number;
+  remindersAcknowledged: number; // marked done
+  remindersSnoozed: number;
+  remindersSkipped: number;
+  remindersDismissed: number;
+  petInteractions: number; // pets and feeds
   petMood: string;
+  distractions?: DistractionEvent[]; // focus guard interruptions, oldest first
+  // Browsing aggregates, filled in by the nightly rollup once the day is over
+  browsingTime: number; // minutes
   topDomains: string[];
-  activityBreakdown: {
-    work: number;
-    social: number;
-    entertainment: number;
-    general: number;
-  };
+  domainTime: Record<string, number>; // minutes on the day's busiest domains
+  activityBreakdown: Record<ActivityType, number>; // minutes
   focusSessions: FocusSession[];
+  rolledUp?: boolean; // browsing aggregates are final; the raw entries may be pruned
+}
+
+export type DailyRollup = Pick<DailyActivity, 'totalFocusTime' | 'browsingTime' | 'topDomains' | 'domainTime' | 'activityBreakdown'>;
+
+export type DistractionOutcome = 'wentBack' | 'snoozed' | 'allowed';
+
+// A focus guard interruption; no outcome means the user closed the tab without choosing
+export interface DistractionEvent {
+  domain: string;
+  activityType: ActivityType;
+  timestamp: number;
+  outcome?: DistractionOutcome;
+}
+
+// A break reminder that went off and is waiting to see whether the user steps away
+export interface BreakWatch {
+  remindedAt: number; // timestamp (ms)
+  awaySince?: number; // timestamp (ms) the user went idle or left the browser
+}
+
+export interface DailyActivityLog {
+  days: Record<string, DailyActivity>; // local YYYY-MM-DD -> record
+  breakWatch?: BreakWatch;
 }
 
 export interface FocusSession {
@@ -83,7 +111,10 @@ export interface AnalyticsSettings {
 export const DOMAIN_CATEGORIES: Record<string, ActivityType> = {
   // Work/Productivity
   'github.com': 'work',
+  'gitlab.com': 'work',
   'stackoverflow.com': 'work',
+  'stackexchange.com': 'work',
+  'atlassian.net': 'work',
   'docs.google.com': 'work',
   'drive.google.com': 'work',
   'calendar.google.com': 'work',
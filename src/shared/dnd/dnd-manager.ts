@@ -0,0 +1,217 @@
+import { DndReason, DndState, DndStatus, DoNotDisturbSettings, QuietHours, Reminder } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { parseTimeOfDay } from '../reminders/schedule';
+
+export const DND_END_ALARM = 'dnd_end';
+export const DND_DIGEST_ALARM = 'dnd_digest';
+
+// Video-call sites from DOMAIN_CATEGORIES; subdomains such as app.zoom.us match too
+export const MEETING_DOMAINS = ['meet.google.com', 'zoom.us', 'teams.microsoft.com'];
+
+export const DEFAULT_DND_SETTINGS: DoNotDisturbSettings = {
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    days: [0, 1, 2, 3, 4, 5, 6],
+  },
+  suppressDuringMeetings: true,
+};
+
+const MAX_MANUAL_MINUTES = 24 * 60;
+
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+
+  if (start === end) return false;
+  if (start < end) {
+    return minute >= start && minute < end && quietHours.days.includes(day);
+  }
+
+  // Overnight window: the early-morning part belongs to the previous day's window
+  if (minute >= start) return quietHours.days.includes(day);
+  if (minute < end) return quietHours.days.includes((day + 6) % 7);
+  return false;
+}
+
+export function isMeetingUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return MEETING_DOMAINS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+}
+
+export class DndManager {
+  private static instance: DndManager;
+
+  private constructor() {}
+
+  static getInstance(): DndManager {
+    if (!DndManager.instance) {
+      DndManager.instance = new DndManager();
+    }
+    return DndManager.instance;
+  }
+
+  async getStatus(): Promise<DndStatus> {
+    const state = await storageManager.getDndState();
+    const reason = await this.getSuppressionReason(state);
+    return {
+      active: reason !== null,
+      reason,
+      manualUntil: state.manualUntil && state.manualUntil > Date.now() ? state.manualUntil : undefined,
+      queued: state.queue.length,
+    };
+  }
+
+  // Why reminders should be held back right now, or null when they can be delivered
+  async getSuppressionReason(state?: DndState): Promise<DndReason | null> {
+    const now = Date.now();
+    const dndState = state ?? await storageManager.getDndState();
+    if (dndState.manualUntil && dndState.manualUntil > now) {
+      return 'manual';
+    }
+
+    const settings = await this.getSettings();
+    if (settings.suppressDuringMeetings && await this.isInMeeting()) {
+      return 'meeting';
+    }
+    if (isWithinQuietHours(settings.quietHours, new Date(now))) {
+      return 'quietHours';
+    }
+    return null;
+  }
+
+  // Manual "do not disturb for N minutes" toggle
+  async startManual(minutes: number): Promise<DndStatus> {
+    if (!Number.isFinite(minutes) || minutes < 1 || minutes > MAX_MANUAL_MINUTES) {
+      throw new Error(`Do Not Disturb must last between 1 and ${MAX_MANUAL_MINUTES} minutes.`);
+    }
+
+    const state = await storageManager.getDndState();
+    state.manualUntil = Date.now() + minutes * 60 * 1000;
+    await storageManager.setDndState(state);
+    await chrome.alarms.create(DND_END_ALARM, { when: state.manualUntil });
+
+    console.log('focusPet: Do Not Disturb on until', new Date(state.manualUntil).toLocaleTimeString());
+    return this.emitStatus();
+  }
+
+  async endManual(): Promise<DndStatus> {
+    const state = await storageManager.getDndState();
+    delete state.manualUntil;
+    await storageManager.setDndState(state);
+    await chrome.alarms.clear(DND_END_ALARM);
+
+    await this.deliverDigestIfClear();
+    return this.emitStatus();
+  }
+
+  // Hold a reminder back; repeats of the same reminder are folded into one digest line
+  async queueReminder(reminder: Reminder): Promise<void> {
+    const state = await storageManager.getDndState();
+    const reminderId = reminder.snoozedFrom ?? reminder.id;
+    const queued = state.queue.find(entry => entry.reminderId === reminderId);
+
+    if (queued) {
+      queued.count++;
+      queued.message = reminder.message;
+    } else {
+      state.queue.push({
+        reminderId,
+        title: reminder.title,
+        message: reminder.message,
+        firstSuppressedAt: Date.now(),
+        count: 1,
+      });
+    }
+    await storageManager.setDndState(state);
+
+    // Poll once a minute until whatever is suppressing reminders has passed
+    if (!(await chrome.alarms.get(DND_DIGEST_ALARM))) {
+      await chrome.alarms.create(DND_DIGEST_ALARM, { delayInMinutes: 1, periodInMinutes: 1 });
+    }
+    await this.emitStatus();
+  }
+
+  async handleAlarm(alarmName: string): Promise<void> {
+    try {
+      if (alarmName === DND_END_ALARM) {
+        const state = await storageManager.getDndState();
+        if (state.manualUntil && state.manualUntil <= Date.now()) {
+          delete state.manualUntil;
+          await storageManager.setDndState(state);
+        }
+      }
+
+      await this.deliverDigestIfClear();
+      await this.emitStatus();
+    } catch (error) {
+      console.error('focusPet: Error handling Do Not Disturb alarm:', error);
+    }
+  }
+
+  private async deliverDigestIfClear(): Promise<void> {
+    const state = await storageManager.getDndState();
+    if (state.queue.length === 0) {
+      await chrome.alarms.clear(DND_DIGEST_ALARM);
+      return;
+    }
+    if (await this.getSuppressionReason(state)) return;
+
+    const queue = state.queue;
+    state.queue = [];
+    await storageManager.setDndState(state);
+    await chrome.alarms.clear(DND_DIGEST_ALARM);
+
+    const total = queue.reduce((sum, entry) => sum + entry.count, 0);
+    try {
+      await chrome.notifications.create(`dnd_digest_${Date.now()}`, {
+        type: 'list',
+        iconUrl: 'assets/icons/icon48.png',
+        title: 'focusPet Reminders',
+        message: `${total} reminder${total === 1 ? '' : 's'} while you were busy`,
+        items: queue.map(entry => ({
+          title: entry.count > 1 ? `${entry.title} (×${entry.count})` : entry.title,
+          message: entry.message,
+        })),
+        priority: 1
+      });
+      console.log('focusPet: Delivered Do Not Disturb digest with', total, 'reminders');
+    } catch (error) {
+      console.error('focusPet: Error showing Do Not Disturb digest:', error);
+    }
+  }
+
+  private async isInMeeting(): Promise<boolean> {
+    try {
+      const [activeTab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+      return !!activeTab?.url && isMeetingUrl(activeTab.url);
+    } catch (error) {
+      console.error('focusPet: Error checking for a meeting tab:', error);
+      return false;
+    }
+  }
+
+  private async emitStatus(): Promise<DndStatus> {
+    const status = await this.getStatus();
+    await eventBus.emit('dnd:changed', { status });
+    return status;
+  }
+
+  private async getSettings(): Promise<DoNotDisturbSettings> {
+    const settings = await storageManager.getUserSettings();
+    return { ...DEFAULT_DND_SETTINGS, ...settings?.doNotDisturb };
+  }
+}
+
+// Export singleton instance
+export const dndManager = DndManager.getInstance();
@@ -0,0 +1,96 @@
+import { ExtensionEvent, ExtensionEventData, STORAGE_KEYS } from '../types';
+
+export type EventListener<K extends ExtensionEvent> = (data: ExtensionEventData[K]) => void | Promise<void>;
+
+// Envelope written to storage so every extension context sees the event
+interface EventEnvelope<K extends ExtensionEvent = ExtensionEvent> {
+  id: string;
+  source: string;
+  event: K;
+  data: ExtensionEventData[K];
+  timestamp: number;
+}
+
+// Cross-context event bus: listeners in the emitting context are called directly, and
+// chrome.storage.onChanged relays the event to the service worker, content scripts and extension pages
+export class EventBus {
+  private static instance: EventBus;
+  private listeners: { [K in ExtensionEvent]?: Set<EventListener<K>> } = {};
+  private contextId: string = this.generateId();
+  private isListening: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): EventBus {
+    if (!EventBus.instance) {
+      EventBus.instance = new EventBus();
+    }
+    return EventBus.instance;
+  }
+
+  // Subscribe to an event; returns a function that unsubscribes
+  on<K extends ExtensionEvent>(event: K, listener: EventListener<K>): () => void {
+    this.startListening();
+
+    const listeners = (this.listeners[event] ?? new Set()) as Set<EventListener<K>>;
+    listeners.add(listener);
+    (this.listeners as Record<K, Set<EventListener<K>>>)[event] = listeners;
+
+    return () => this.off(event, listener);
+  }
+
+  off<K extends ExtensionEvent>(event: K, listener: EventListener<K>): void {
+    (this.listeners[event] as Set<EventListener<K>> | undefined)?.delete(listener);
+  }
+
+  async emit<K extends ExtensionEvent>(event: K, data: ExtensionEventData[K]): Promise<void> {
+    this.dispatch(event, data);
+
+    const envelope: EventEnvelope<K> = {
+      id: this.generateId(),
+      source: this.contextId,
+      event,
+      data,
+      timestamp: Date.now(),
+    };
+
+    try {
+      // A fresh id guarantees onChanged fires even when the same event repeats
+      await chrome.storage.local.set({ [STORAGE_KEYS.EVENT_BUS]: envelope });
+    } catch (error) {
+      console.error(`focusPet: Error relaying ${event}:`, error);
+    }
+  }
+
+  private dispatch<K extends ExtensionEvent>(event: K, data: ExtensionEventData[K]): void {
+    const listeners = this.listeners[event] as Set<EventListener<K>> | undefined;
+    listeners?.forEach(listener => {
+      Promise.resolve()
+        .then(() => listener(data))
+        .catch(error => console.error(`focusPet: Error in ${event} listener:`, error));
+    });
+  }
+
+  private startListening(): void {
+    if (this.isListening) return;
+    this.isListening = true;
+
+    chrome.storage.onChanged.addListener((changes, namespace) => {
+      const envelope: EventEnvelope | undefined = changes[STORAGE_KEYS.EVENT_BUS]?.newValue;
+      if (namespace !== 'local' || !envelope) return;
+
+      // Our own events were already delivered locally
+      if (envelope.source === this.contextId) return;
+
+      this.dispatch(envelope.event, envelope.data);
+    });
+  }
+
+  // Generate unique ID
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+// Export singleton instance
+export const eventBus = EventBus.getInstance();
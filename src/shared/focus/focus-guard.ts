@@ -0,0 +1,192 @@
+import { ActivityType, FocusGuardChoice, FocusGuardPrompt, FocusGuardSettings } from '../types';
+import { DistractionOutcome } from '../analytics/types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { sendToTab } from '../messaging';
+import { dailyActivityTracker } from '../analytics/daily-activity-tracker';
+import { isWithinDomain, matchesSitePattern } from '../analytics/domain-rules';
+import { pomodoroManager } from '../pomodoro/pomodoro-manager';
+import { focusSessionManager } from './focus-session-manager';
+
+export const FOCUS_GUARD_ALARM = 'focus_guard_grant';
+export const FOCUS_GUARD_GRACE_MINUTES = 5;
+export const FOCUS_GUARD_TREAT_COST = 1;
+
+export const DEFAULT_FOCUS_GUARD_SETTINGS: FocusGuardSettings = {
+  enabled: false,
+  blockedActivityTypes: ['social', 'entertainment'],
+  allowedDomains: [],
+};
+
+const OUTCOMES: Record<FocusGuardChoice, DistractionOutcome> = {
+  goBack: 'wentBack',
+  snooze: 'snoozed',
+  allow: 'allowed',
+};
+
+function toGuardedHost(url: string): string | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname.startsWith('www.') ? hostname.slice(4) : hostname;
+  } catch {
+    return null;
+  }
+}
+
+export class FocusGuard {
+  private static instance: FocusGuard;
+
+  private constructor() {}
+
+  static getInstance(): FocusGuard {
+    if (!FocusGuard.instance) {
+      FocusGuard.instance = new FocusGuard();
+    }
+    return FocusGuard.instance;
+  }
+
+  // A running (unpaused) focus session or a Pomodoro work phase
+  async isFocusTime(): Promise<boolean> {
+    const session = await focusSessionManager.getActiveSession();
+    if (session && !session.isPaused) return true;
+
+    const pomodoro = await pomodoroManager.getState();
+    return pomodoro.isRunning && pomodoro.phase === 'work';
+  }
+
+  // Show the interstitial on `tabId` if its page shouldn't be open right now
+  async intervene(tabId: number, url: string, activityType: ActivityType | null): Promise<void> {
+    const prompt = await this.getPrompt(url, activityType);
+    if (!prompt) return;
+
+    let shown = false;
+    try {
+      shown = await sendToTab(tabId, 'SHOW_FOCUS_GUARD', { prompt });
+    } catch {
+      // No content script on this page (e.g. it is still loading); the next update will retry
+    }
+    if (shown) {
+      await dailyActivityTracker.recordDistraction(prompt.domain, prompt.activityType);
+      console.log('focusPet: Focus guard interrupted a visit to', prompt.domain);
+    }
+  }
+
+  async resolve(tabId: number | undefined, domain: string, choice: FocusGuardChoice): Promise<void> {
+    switch (choice) {
+      case 'goBack':
+        if (tabId !== undefined) await this.leave(tabId);
+        break;
+      case 'snooze':
+        await this.buyGrace(domain);
+        break;
+      case 'allow':
+        await this.allowDomain(domain);
+        break;
+    }
+    await dailyActivityTracker.resolveDistraction(domain, OUTCOMES[choice]);
+  }
+
+  // A grace period ran out; forget it so the page can be interrupted again
+  async handleAlarm(): Promise<void> {
+    const state = await storageManager.getFocusGuardState();
+    const now = Date.now();
+    for (const [domain, until] of Object.entries(state.grants)) {
+      if (until <= now) {
+        delete state.grants[domain];
+      }
+    }
+    await storageManager.setFocusGuardState(state);
+    await this.scheduleGrantAlarm(state.grants);
+  }
+
+  private async getPrompt(url: string, activityType: ActivityType | null): Promise<FocusGuardPrompt | null> {
+    const settings = await this.getSettings();
+    const domain = toGuardedHost(url);
+    if (!settings.enabled || !domain || !activityType || !settings.blockedActivityTypes.includes(activityType)) {
+      return null;
+    }
+    if (settings.allowedDomains.some(allowed => matchesSitePattern(domain, allowed))) {
+      return null;
+    }
+
+    const { grants } = await storageManager.getFocusGuardState();
+    const now = Date.now();
+    if (Object.entries(grants).some(([granted, until]) => until > now && isWithinDomain(domain, granted))) {
+      return null;
+    }
+    if (!(await this.isFocusTime())) {
+      return null;
+    }
+
+    const petState = await storageManager.getPetState();
+    const earlierVisits = await dailyActivityTracker.countDistractionsToday(domain);
+    return {
+      domain,
+      activityType,
+      petAnimation: earlierVisits > 0 ? 'sad' : 'worried',
+      treats: petState?.treats ?? 0,
+      treatCost: FOCUS_GUARD_TREAT_COST,
+      graceMinutes: FOCUS_GUARD_GRACE_MINUTES,
+    };
+  }
+
+  private async leave(tabId: number): Promise<void> {
+    try {
+      await chrome.tabs.goBack(tabId);
+    } catch {
+      // Nothing to go back to, e.g. the site was opened in a new tab
+      await chrome.tabs.update(tabId, { url: 'chrome://newtab/' });
+    }
+  }
+
+  private async buyGrace(domain: string): Promise<void> {
+    const petState = await storageManager.getPetState();
+    if (!petState || petState.treats < FOCUS_GUARD_TREAT_COST) {
+      throw new Error(`${FOCUS_GUARD_GRACE_MINUTES} more minutes costs ${FOCUS_GUARD_TREAT_COST} treat.`);
+    }
+
+    const success = await storageManager.updatePetStateAtomic({ treats: petState.treats - FOCUS_GUARD_TREAT_COST });
+    if (!success) {
+      throw new Error('State conflict, please try again');
+    }
+    const updatedPetState = await storageManager.getPetState();
+    if (updatedPetState) {
+      await eventBus.emit('pet:stateChanged', { petState: updatedPetState });
+    }
+
+    const state = await storageManager.getFocusGuardState();
+    state.grants[domain] = Date.now() + FOCUS_GUARD_GRACE_MINUTES * 60 * 1000;
+    await storageManager.setFocusGuardState(state);
+    await this.scheduleGrantAlarm(state.grants);
+  }
+
+  private async allowDomain(domain: string): Promise<void> {
+    const settings = await storageManager.getUserSettings();
+    if (!settings) return;
+
+    const focusGuard = { ...DEFAULT_FOCUS_GUARD_SETTINGS, ...settings.focusGuard };
+    if (focusGuard.allowedDomains.includes(domain)) return;
+
+    const updated = { ...settings, focusGuard: { ...focusGuard, allowedDomains: [...focusGuard.allowedDomains, domain] } };
+    await storageManager.setUserSettings(updated);
+    await eventBus.emit('settings:updated', { settings: updated });
+  }
+
+  // One alarm for the earliest grant to expire
+  private async scheduleGrantAlarm(grants: Record<string, number>): Promise<void> {
+    const expiries = Object.values(grants);
+    if (expiries.length === 0) {
+      await chrome.alarms.clear(FOCUS_GUARD_ALARM);
+      return;
+    }
+    await chrome.alarms.create(FOCUS_GUARD_ALARM, { when: Math.min(...expiries) });
+  }
+
+  private async getSettings(): Promise<FocusGuardSettings> {
+    const settings = await storageManager.getUserSettings();
+    return { ...DEFAULT_FOCUS_GUARD_SETTINGS, ...settings?.focusGuard };
+  }
+}
+
+// Export singleton instance
+export const focusGuard = FocusGuard.getInstance();
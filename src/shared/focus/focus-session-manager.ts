@@ -0,0 +1,138 @@
+import { FocusSession } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+
+const MAX_STORED_SESSIONS = 200;
+
+export class FocusSessionManager {
+  private static instance: FocusSessionManager;
+
+  private constructor() {}
+
+  static getInstance(): FocusSessionManager {
+    if (!FocusSessionManager.instance) {
+      FocusSessionManager.instance = new FocusSessionManager();
+    }
+    return FocusSessionManager.instance;
+  }
+
+  // The active session always comes from storage so it survives service worker restarts
+  async getActiveSession(): Promise<FocusSession | null> {
+    const sessions = await storageManager.getFocusSessions();
+    return sessions.find(s => s.isActive) || null;
+  }
+
+  // Start a new session on the current tab's website
+  async startSession(website?: string): Promise<FocusSession> {
+    const activeSession = await this.getActiveSession();
+    if (activeSession) {
+      throw new Error('A focus session is already running.');
+    }
+
+    const session: FocusSession = {
+      id: this.generateId(),
+      startTime: Date.now(),
+      duration: 0,
+      website: website || await this.getActiveWebsite(),
+      isActive: true,
+      isPaused: false,
+      pausedTime: 0,
+    };
+
+    const sessions = await storageManager.getFocusSessions();
+    sessions.push(session);
+    await storageManager.setFocusSessions(sessions.slice(-MAX_STORED_SESSIONS));
+
+    console.log('focusPet: Focus session started on', session.website);
+    await eventBus.emit('focus:sessionStarted', { session });
+    return session;
+  }
+
+  async pauseSession(): Promise<FocusSession> {
+    const session = await this.requireActiveSession();
+    if (session.isPaused) return session;
+
+    const now = Date.now();
+    session.isPaused = true;
+    session.pausedAt = now;
+    session.duration = this.calculateDuration(session, now);
+    await storageManager.updateFocusSession(session);
+
+    console.log('focusPet: Focus session paused after', session.duration, 'minutes');
+    return session;
+  }
+
+  async resumeSession(): Promise<FocusSession> {
+    const session = await this.requireActiveSession();
+    if (!session.isPaused) return session;
+
+    const now = Date.now();
+    session.pausedTime = (session.pausedTime || 0) + (now - (session.pausedAt || now));
+    session.isPaused = false;
+    session.pausedAt = undefined;
+    await storageManager.updateFocusSession(session);
+
+    console.log('focusPet: Focus session resumed');
+    return session;
+  }
+
+  async endSession(): Promise<FocusSession> {
+    const session = await this.requireActiveSession();
+
+    const now = Date.now();
+    if (session.isPaused) {
+      session.pausedTime = (session.pausedTime || 0) + (now - (session.pausedAt || now));
+    }
+    // Cleared before the duration is worked out, so the current pause isn't subtracted twice
+    session.isPaused = false;
+    session.pausedAt = undefined;
+    session.endTime = now;
+    session.duration = this.calculateDuration(session, now);
+    session.isActive = false;
+    await storageManager.updateFocusSession(session);
+
+    console.log('focusPet: Focus session ended after', session.duration, 'minutes');
+    await eventBus.emit('focus:sessionEnded', { session });
+    return session;
+  }
+
+  // Record an already finished session, such as a Pomodoro phase, alongside manual ones
+  async logSession(session: Omit<FocusSession, 'id' | 'isActive'>): Promise<FocusSession> {
+    const loggedSession: FocusSession = { ...session, id: this.generateId(), isActive: false };
+    const sessions = await storageManager.getFocusSessions();
+    sessions.push(loggedSession);
+    await storageManager.setFocusSessions(sessions.slice(-MAX_STORED_SESSIONS));
+    return loggedSession;
+  }
+
+  // Focused minutes so far, excluding paused time
+  calculateDuration(session: FocusSession, now: number = Date.now()): number {
+    const pausedTime = (session.pausedTime || 0) + (session.isPaused && session.pausedAt ? now - session.pausedAt : 0);
+    return Math.max(0, Math.floor((now - session.startTime - pausedTime) / 60000));
+  }
+
+  private async requireActiveSession(): Promise<FocusSession> {
+    const session = await this.getActiveSession();
+    if (!session) {
+      throw new Error('No focus session is running.');
+    }
+    return session;
+  }
+
+  private async getActiveWebsite(): Promise<string> {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+      return tab?.url ? new URL(tab.url).hostname : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  // Generate unique ID
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+// Export singleton instance
+export const focusSessionManager = FocusSessionManager.getInstance();
@@ -0,0 +1,234 @@
+import {
+  PetState,
+  PetRoster,
+  PetType,
+  UserSettings,
+  Reminder,
+  ReminderType,
+  ReminderHistoryEntry,
+  FocusStats,
+  FocusSession,
+  Achievement,
+  StreakHistory,
+  PomodoroState,
+  DndStatus,
+  FocusGuardChoice,
+  FocusGuardPrompt,
+} from '../types';
+import { AnalyticsData as ActivitySummary } from '../analytics/types';
+import { StoryData } from '../analytics/story-generator';
+
+// A message is described by the payload it carries and the data its handler resolves with
+interface MessageSpec {
+  request: object;
+  response: unknown;
+}
+
+type MessageSpecMap = Record<string, MessageSpec>;
+
+type EmptyPayload = Record<never, never>;
+
+export interface AnalyticsStatus {
+  status: { enabled: boolean; initialized: boolean; trackingTabs: number };
+  summary: ActivitySummary;
+  activityLogLength: number;
+}
+
+// Messages handled by the background service worker
+export type BackgroundMessages = {
+  // Pet
+  GET_PET_STATE: { request: EmptyPayload; response: PetState | null };
+  UPDATE_PET_STATE: { request: { data: PetState }; response: void };
+  FEED_PET: { request: EmptyPayload; response: void };
+  ADD_TREATS: { request: { count: number }; response: void };
+  GET_PET_ROSTER: { request: EmptyPayload; response: PetRoster };
+  ADOPT_PET: { request: { petType: PetType; name: string }; response: PetRoster };
+  SWITCH_PET: { request: { petId: string }; response: PetRoster };
+  PURCHASE_ITEM: { request: { itemId: string }; response: PetState };
+  SET_ACCESSORY_EQUIPPED: { request: { itemId: string; equipped: boolean }; response: PetState };
+  RECORD_PET_INTERACTION: { request: EmptyPayload; response: void };
+  TRIGGER_AI_RESPONSE: { request: EmptyPayload; response: void };
+  SYNC_STORAGE: { request: EmptyPayload; response: void };
+
+  // Settings
+  GET_USER_SETTINGS: { request: EmptyPayload; response: UserSettings | null };
+  UPDATE_USER_SETTINGS: { request: { data: UserSettings }; response: void };
+
+  // Reminders
+  GET_REMINDERS: { request: EmptyPayload; response: Reminder[] };
+  CREATE_REMINDER: { request: { data: Omit<Reminder, 'id' | 'createdAt'> }; response: Reminder };
+  UPDATE_REMINDER: { request: { reminderId: string; data: Partial<Reminder> }; response: Reminder | null };
+  DELETE_REMINDER: { request: { reminderId: string }; response: boolean };
+  CREATE_PRESET_REMINDER: { request: { reminderType: ReminderType }; response: Reminder };
+  SNOOZE_REMINDER: { request: { reminderId: string; snoozeMinutes: number }; response: Reminder | null };
+  COMPLETE_REMINDER: { request: { reminderId: string }; response: void };
+  SKIP_REMINDER: { request: { reminderId: string }; response: void };
+  DISMISS_REMINDER: { request: { reminderId: string }; response: void };
+  GET_REMINDER_HISTORY: { request: { reminderId?: string }; response: ReminderHistoryEntry[] };
+  GET_DND_STATUS: { request: EmptyPayload; response: DndStatus };
+  START_DND: { request: { minutes: number }; response: DndStatus };
+  END_DND: { request: EmptyPayload; response: DndStatus };
+
+  // Focus tracking
+  GET_FOCUS_STATS: { request: EmptyPayload; response: FocusStats | null };
+  UPDATE_FOCUS_STATS: { request: { data: FocusStats }; response: void };
+  ADD_FOCUS_SESSION: { request: { data: FocusSession }; response: void };
+  UPDATE_FOCUS_SESSION: { request: { data: FocusSession }; response: void };
+  START_FOCUS: { request: { website?: string }; response: FocusSession };
+  PAUSE_FOCUS: { request: EmptyPayload; response: FocusSession };
+  RESUME_FOCUS: { request: EmptyPayload; response: FocusSession };
+  END_FOCUS: { request: EmptyPayload; response: FocusSession };
+  GET_ACTIVE_FOCUS_SESSION: { request: EmptyPayload; response: FocusSession | null };
+  GET_POMODORO_STATE: { request: EmptyPayload; response: PomodoroState };
+  START_POMODORO: { request: EmptyPayload; response: PomodoroState };
+  STOP_POMODORO: { request: EmptyPayload; response: PomodoroState };
+  SKIP_POMODORO_PHASE: { request: EmptyPayload; response: PomodoroState };
+  GET_STREAK_HISTORY: { request: { days?: number }; response: StreakHistory };
+  BUY_STREAK_FREEZE: { request: EmptyPayload; response: { freezesAvailable: number } };
+  GET_ACHIEVEMENTS: { request: EmptyPayload; response: Achievement[] };
+  RESOLVE_FOCUS_GUARD: { request: { domain: string; choice: FocusGuardChoice }; response: void };
+
+  // Analytics and stories
+  TEST_ANALYTICS_SUMMARY: { request: EmptyPayload; response: ActivitySummary };
+  TEST_ANALYTICS_TRACKING: { request: EmptyPayload; response: void };
+  GET_ANALYTICS_STATUS: { request: EmptyPayload; response: AnalyticsStatus };
+  CLEAR_ANALYTICS_DATA: { request: EmptyPayload; response: void };
+  GENERATE_DAILY_STORY: { request: EmptyPayload; response: StoryData };
+  GENERATE_WEEKLY_STORY: { request: EmptyPayload; response: StoryData };
+  GET_STORIES: { request: EmptyPayload; response: StoryData[] };
+  GET_LATEST_STORY: { request: EmptyPayload; response: StoryData | null };
+};
+
+// Messages handled by content scripts; state changes travel on the event bus instead
+export type ContentMessages = {
+  REMINDER_TRIGGERED: { request: { reminder: Reminder }; response: void };
+  SYNC_STORAGE: { request: EmptyPayload; response: void };
+  TRIGGER_AI_RESPONSE: { request: EmptyPayload; response: void };
+  SHOW_FOCUS_GUARD: { request: { prompt: FocusGuardPrompt }; response: boolean }; // false if already showing
+};
+
+export type BackgroundMessageType = keyof BackgroundMessages & string;
+export type ContentMessageType = keyof ContentMessages & string;
+
+export type MessageRequest<M extends MessageSpecMap, T extends keyof M> = M[T]['request'];
+export type MessageResponse<M extends MessageSpecMap, T extends keyof M> = M[T]['response'];
+
+// Wire format of every response
+export interface MessageResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Payload argument is optional for messages whose fields are all optional
+type PayloadArgs<P> = EmptyPayload extends P ? [payload?: P] : [payload: P];
+
+export type MessageHandler<M extends MessageSpecMap, T extends keyof M> = (
+  payload: MessageRequest<M, T>,
+  sender: chrome.runtime.MessageSender
+) => MessageResponse<M, T> | Promise<MessageResponse<M, T>>;
+
+function toResult<T>(response: MessageResult<T> | undefined): T {
+  if (response?.success) {
+    return response.data as T;
+  }
+  throw new Error(response?.error || 'Unknown error');
+}
+
+// Send a message to the background service worker
+export function send<T extends BackgroundMessageType>(
+  type: T,
+  ...args: PayloadArgs<MessageRequest<BackgroundMessages, T>>
+): Promise<MessageResponse<BackgroundMessages, T>> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type, ...args[0] }, (response: MessageResult<MessageResponse<BackgroundMessages, T>>) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+        return;
+      }
+      try {
+        resolve(toResult(response));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+// Send a message to the content script of one tab
+export async function sendToTab<T extends ContentMessageType>(
+  tabId: number,
+  type: T,
+  ...args: PayloadArgs<MessageRequest<ContentMessages, T>>
+): Promise<MessageResponse<ContentMessages, T>> {
+  const response: MessageResult<MessageResponse<ContentMessages, T>> = await chrome.tabs.sendMessage(tabId, { type, ...args[0] });
+  return toResult(response);
+}
+
+// Send a message to every tab; returns how many tabs had a content script to receive it
+export async function broadcastToTabs<T extends ContentMessageType>(
+  type: T,
+  ...args: PayloadArgs<MessageRequest<ContentMessages, T>>
+): Promise<number> {
+  const tabs = await chrome.tabs.query({});
+  const results = await Promise.all(tabs.map(async tab => {
+    if (!tab.id) return false;
+    try {
+      await sendToTab(tab.id, type, ...args);
+      return true;
+    } catch {
+      // Ignore errors for tabs that don't have content script
+      return false;
+    }
+  }));
+  return results.filter(Boolean).length;
+}
+
+// Handler registry: dispatches incoming messages by type and wraps results in MessageResult
+export class MessageRouter<M extends MessageSpecMap> {
+  private handlers: { [T in keyof M]?: MessageHandler<M, T> } = {};
+  private rejectUnknown: boolean;
+
+  constructor(options: { rejectUnknown?: boolean } = {}) {
+    this.rejectUnknown = options.rejectUnknown ?? false;
+  }
+
+  on<T extends keyof M & string>(type: T, handler: MessageHandler<M, T>): this {
+    this.handlers[type] = handler;
+    return this;
+  }
+
+  listen(): void {
+    chrome.runtime.onMessage.addListener(this.listener);
+  }
+
+  stop(): void {
+    chrome.runtime.onMessage.removeListener(this.listener);
+  }
+
+  private listener = (
+    message: { type?: string },
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: MessageResult) => void
+  ): boolean => {
+    const handler = message?.type ? this.handlers[message.type as keyof M] : undefined;
+
+    if (!handler) {
+      if (this.rejectUnknown) {
+        sendResponse({ success: false, error: 'Unknown message type' });
+      }
+      // Leave the message for other listeners
+      return false;
+    }
+
+    Promise.resolve()
+      .then(() => handler(message as MessageRequest<M, keyof M>, sender))
+      .then(data => sendResponse({ success: true, data }))
+      .catch(error => {
+        console.error(`focusPet: Error handling ${message.type}:`, error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // Keep message channel open for async response
+  };
+}
@@ -0,0 +1,33 @@
+import { OverlaySettings } from '../types';
+import { matchesSitePattern } from '../analytics/domain-rules';
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  hidden: false,
+  hideInFullscreen: true,
+  hiddenSites: [],
+  onlyOnSites: [],
+  rememberPosition: 'global',
+};
+
+// The key a page is listed under: its host without "www.", or null for non-web pages
+export function toSiteKey(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    const hostname = parsed.hostname.toLowerCase();
+    return hostname.startsWith('www.') ? hostname.slice(4) : hostname;
+  } catch {
+    return null;
+  }
+}
+
+// Deny rules win over the allow list, so a hidden site stays hidden even if it is also allowed
+export function isOverlayAllowed(url: string, settings: OverlaySettings, fullscreen: boolean): boolean {
+  if (settings.hidden) return false;
+  if (fullscreen && settings.hideInFullscreen) return false;
+
+  const site = toSiteKey(url);
+  if (!site) return true;
+  if (settings.hiddenSites.some(pattern => matchesSitePattern(site, pattern))) return false;
+  return settings.onlyOnSites.length === 0 || settings.onlyOnSites.some(pattern => matchesSitePattern(site, pattern));
+}
@@ -0,0 +1,93 @@
+import { PetPlacement, PetPlacements, PlacementAnchor, Position, UserSettings } from '../types';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export const EDGE_MARGIN = 48; // keeps the largest sprite and its mood dot on-screen
+export const SNAP_DISTANCE = 40;
+
+function anchorLine(anchor: PlacementAnchor, size: number): number {
+  if (anchor === 'start') return 0;
+  return anchor === 'center' ? size / 2 : size;
+}
+
+function clampAxis(value: number, size: number): number {
+  if (size <= EDGE_MARGIN * 2) return size / 2;
+  return Math.min(Math.max(value, EDGE_MARGIN), size - EDGE_MARGIN);
+}
+
+// Pull the pet onto an edge or the centre line when it is dropped close to one
+function snapAxis(value: number, size: number): number {
+  const targets = [EDGE_MARGIN, size / 2, size - EDGE_MARGIN];
+  const nearest = targets.reduce((best, target) => (Math.abs(target - value) < Math.abs(best - value) ? target : best));
+  return Math.abs(nearest - value) <= SNAP_DISTANCE ? nearest : value;
+}
+
+function nearestAnchor(value: number, size: number): PlacementAnchor {
+  if (value < size / 3) return 'start';
+  return value > (size * 2) / 3 ? 'end' : 'center';
+}
+
+export function clampToViewport(position: Position, viewport: Viewport): Position {
+  return { x: clampAxis(position.x, viewport.width), y: clampAxis(position.y, viewport.height) };
+}
+
+// Snapping each axis separately means a drop near two edges lands in the corner
+export function snapPosition(position: Position, viewport: Viewport): Position {
+  return clampToViewport(
+    { x: snapAxis(position.x, viewport.width), y: snapAxis(position.y, viewport.height) },
+    viewport
+  );
+}
+
+export function toPlacement(position: Position, viewport: Viewport): PetPlacement {
+  const horizontal = nearestAnchor(position.x, viewport.width);
+  const vertical = nearestAnchor(position.y, viewport.height);
+  return {
+    horizontal,
+    vertical,
+    offsetX: Math.round(position.x - anchorLine(horizontal, viewport.width)),
+    offsetY: Math.round(position.y - anchorLine(vertical, viewport.height)),
+  };
+}
+
+export function fromPlacement(placement: PetPlacement, viewport: Viewport): Position {
+  return clampToViewport({
+    x: anchorLine(placement.horizontal, viewport.width) + placement.offsetX,
+    y: anchorLine(placement.vertical, viewport.height) + placement.offsetY,
+  }, viewport);
+}
+
+// Where the petPosition setting puts the pet before it has ever been dragged
+export function anchorPlacement(anchor: UserSettings['petPosition']): PetPlacement {
+  if (anchor === 'center') {
+    return { horizontal: 'center', vertical: 'center', offsetX: 0, offsetY: 0 };
+  }
+  const [vertical, horizontal] = anchor.split('-');
+  return {
+    horizontal: horizontal === 'left' ? 'start' : 'end',
+    vertical: vertical === 'top' ? 'start' : 'end',
+    offsetX: horizontal === 'left' ? EDGE_MARGIN : -EDGE_MARGIN,
+    offsetY: vertical === 'top' ? EDGE_MARGIN : -EDGE_MARGIN,
+  };
+}
+
+// A site's own spot, else the global one, else the petPosition anchor
+export function resolvePlacement(placements: PetPlacements, settings: UserSettings, site: string | null): PetPlacement {
+  const siteScoped = settings.overlay?.rememberPosition === 'site';
+  return (siteScoped && site && placements.sites[site]) || placements.global || anchorPlacement(settings.petPosition);
+}
+
+export function withPlacement(
+  placements: PetPlacements,
+  placement: PetPlacement,
+  settings: UserSettings,
+  site: string | null
+): PetPlacements {
+  if (settings.overlay?.rememberPosition === 'site' && site) {
+    return { ...placements, sites: { ...placements.sites, [site]: placement } };
+  }
+  return { ...placements, global: placement };
+}
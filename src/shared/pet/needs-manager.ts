@@ -0,0 +1,64 @@
+import { PetState } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { simulate } from './needs';
+
+export const PET_NEEDS_ALARM = 'pet_needs_tick';
+const TICK_MINUTES = 1;
+
+// Stats are stored with fractions; only tell the tabs when a visible (rounded) value moves
+function hasVisibleChange(before: PetState, after: PetState): boolean {
+  return before.mood !== after.mood
+    || Math.round(before.happiness) !== Math.round(after.happiness)
+    || Math.round(before.energy) !== Math.round(after.energy)
+    || Math.round(before.satiety) !== Math.round(after.satiety);
+}
+
+export class PetNeedsManager {
+  private static instance: PetNeedsManager;
+
+  private constructor() {}
+
+  static getInstance(): PetNeedsManager {
+    if (!PetNeedsManager.instance) {
+      PetNeedsManager.instance = new PetNeedsManager();
+    }
+    return PetNeedsManager.instance;
+  }
+
+  // Schedule the periodic tick and account for any time the browser was closed
+  async start(): Promise<void> {
+    await chrome.alarms.create(PET_NEEDS_ALARM, { periodInMinutes: TICK_MINUTES });
+    await this.catchUp();
+  }
+
+  // Bring the stored needs up to `now`; safe to call as often as needed
+  async catchUp(now: number = Date.now()): Promise<void> {
+    try {
+      let before: PetState | null = null;
+      const petStateAfter = await storageManager.updatePetState(petState => {
+        const from = petState.needsUpdatedAt ?? now;
+        if (now <= from) return null;
+
+        before = petState;
+        const updated = simulate(petState, from, now);
+        return {
+          happiness: updated.happiness,
+          energy: updated.energy,
+          satiety: updated.satiety,
+          mood: updated.mood,
+          needsUpdatedAt: now,
+        };
+      });
+
+      if (before && petStateAfter && hasVisibleChange(before, petStateAfter)) {
+        await eventBus.emit('pet:stateChanged', { petState: petStateAfter });
+      }
+    } catch (error) {
+      console.error('focusPet: Error updating pet needs:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const petNeedsManager = PetNeedsManager.getInstance();
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { PetState } from '../types';
+import { NAP_AFTER_MINUTES, NeedsCurve, simulate } from './needs';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1, 9);
+
+const curve: NeedsCurve = {
+  happinessDecayPerHour: 10,
+  satietyDecayPerHour: 5,
+  energyDrainPerHour: 20,
+  energyRestPerHour: 40,
+};
+
+function pet(overrides: Partial<PetState> = {}): PetState {
+  return {
+    type: 'cat',
+    name: 'Whiskers',
+    mood: 'content',
+    happiness: 80,
+    energy: 80,
+    satiety: 80,
+    treats: 0,
+    unlockedAnimations: ['idle', 'walk', 'sit', 'nap'],
+    accessories: [],
+    position: { x: 100, y: 100 },
+    currentAnimation: 'idle',
+    lastInteraction: START,
+    needsUpdatedAt: START,
+    ...overrides,
+  };
+}
+
+describe('simulate', () => {
+  it('returns the state unchanged when no time has passed', () => {
+    const state = pet();
+    expect(simulate(state, START, START, curve)).toBe(state);
+  });
+
+  it('drains energy and satiety while awake, without touching happiness', () => {
+    // Played with throughout, so the pet never gets to nap
+    const state = pet({ lastInteraction: START + HOUR_MS });
+    const result = simulate(state, START, START + HOUR_MS, curve);
+
+    expect(result.happiness).toBe(80);
+    expect(result.satiety).toBe(75);
+    expect(result.energy).toBe(60);
+  });
+
+  it('rests and gets lonely once napping', () => {
+    const napStart = START + NAP_AFTER_MINUTES * 60 * 1000;
+    const result = simulate(pet(), napStart, napStart + HOUR_MS, curve);
+
+    expect(result.happiness).toBe(70);
+    expect(result.satiety).toBe(75);
+    expect(result.energy).toBe(100);
+  });
+
+  it('splits an interval at the moment the pet falls asleep', () => {
+    const awakeHours = NAP_AFTER_MINUTES / 60;
+    const result = simulate(pet({ energy: 40 }), START, START + HOUR_MS, curve);
+
+    expect(result.satiety).toBeCloseTo(75);
+    expect(result.happiness).toBeCloseTo(80 - (1 - awakeHours) * 10);
+    expect(result.energy).toBeCloseTo(40 - awakeHours * 20 + (1 - awakeHours) * 40);
+  });
+
+  it('keeps every need between 0 and 100', () => {
+    const result = simulate(pet({ happiness: 5, satiety: 3, energy: 95 }), START, START + 10 * HOUR_MS, curve);
+
+    expect(result.happiness).toBe(0);
+    expect(result.satiety).toBe(0);
+    expect(result.energy).toBe(100);
+  });
+
+  it('gives the same result for a long offline gap as for a tick every minute', () => {
+    const end = START + 3 * 24 * HOUR_MS;
+    const once = simulate(pet(), START, end, curve);
+
+    let ticked = pet();
+    for (let ts = START; ts < end; ts += 60 * 1000) {
+      ticked = simulate(ticked, ts, ts + 60 * 1000, curve);
+    }
+
+    expect(once.happiness).toBe(0);
+    expect(once.satiety).toBe(0);
+    expect(ticked.happiness).toBeCloseTo(once.happiness);
+    expect(ticked.satiety).toBeCloseTo(once.satiety);
+    expect(ticked.energy).toBeCloseTo(once.energy);
+    expect(ticked.mood).toBe(once.mood);
+  });
+
+  it('derives the mood from the new needs', () => {
+    expect(simulate(pet(), START, START + 3 * 24 * HOUR_MS, curve).mood).toBe('neglected');
+  });
+});
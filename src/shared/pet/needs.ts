@@ -0,0 +1,57 @@
+import { PetMood, PetState, PetType } from '../types';
+
+// How fast each need changes, in points per hour of wall-clock time
+export interface NeedsCurve {
+  happinessDecayPerHour: number; // while left alone
+  satietyDecayPerHour: number; // always
+  energyDrainPerHour: number; // while awake and being played with
+  energyRestPerHour: number; // while napping
+}
+
+// The pet stays awake this long after the last interaction, then naps
+export const NAP_AFTER_MINUTES = 5;
+
+export const PET_NEEDS_CURVES: Record<PetType, NeedsCurve> = {
+  cat: { happinessDecayPerHour: 5, satietyDecayPerHour: 4, energyDrainPerHour: 12, energyRestPerHour: 30 },
+  dog: { happinessDecayPerHour: 9, satietyDecayPerHour: 5, energyDrainPerHour: 15, energyRestPerHour: 25 },
+  dragon: { happinessDecayPerHour: 4, satietyDecayPerHour: 7, energyDrainPerHour: 8, energyRestPerHour: 20 },
+  penguin: { happinessDecayPerHour: 7, satietyDecayPerHour: 5, energyDrainPerHour: 10, energyRestPerHour: 25 },
+  bunny: { happinessDecayPerHour: 6, satietyDecayPerHour: 6, energyDrainPerHour: 14, energyRestPerHour: 35 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function clamp(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+export function moodFromNeeds(happiness: number, energy: number, satiety: number): PetMood {
+  const avgStats = (happiness + energy + satiety) / 3;
+  if (avgStats >= 80) return 'happy';
+  if (avgStats >= 60) return 'content';
+  if (avgStats >= 40) return 'bored';
+  return 'neglected';
+}
+
+// Advance the pet's needs from `fromTs` to `toTs`. Pure and linear within each phase, so
+// one call over a weekend gives the same result as a tick every minute.
+export function simulate(
+  state: PetState,
+  fromTs: number,
+  toTs: number,
+  curve: NeedsCurve = PET_NEEDS_CURVES[state.type]
+): PetState {
+  if (toTs <= fromTs) return state;
+
+  // Split the interval into the awake stretch after the last interaction and the nap after it
+  const napStart = Math.min(toTs, Math.max(fromTs, state.lastInteraction + NAP_AFTER_MINUTES * 60 * 1000));
+  const awakeHours = (napStart - fromTs) / HOUR_MS;
+  const napHours = (toTs - napStart) / HOUR_MS;
+
+  const happiness = clamp(state.happiness - napHours * curve.happinessDecayPerHour);
+  const satiety = clamp(state.satiety - (awakeHours + napHours) * curve.satietyDecayPerHour);
+  const awakeEnergy = clamp(state.energy - awakeHours * curve.energyDrainPerHour);
+  const energy = clamp(awakeEnergy + napHours * curve.energyRestPerHour);
+
+  return { ...state, happiness, satiety, energy, mood: moodFromNeeds(happiness, energy, satiety) };
+}
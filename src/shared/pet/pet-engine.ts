@@ -1,6 +1,8 @@
 import { PetState, PetAnimation, Position } from '../types';
 import { storageManager } from '../storage';
+import { send } from '../messaging';
 import { PetAI, AIContext } from '../ai/pet-ai';
+import { NAP_AFTER_MINUTES, moodFromNeeds } from './needs';
 
 // Conversation responses for different pet types and situations
 const PET_RESPONSES = {
@@ -237,7 +239,7 @@ export class PetEngine {
   private aiResponseTimer: number | null = null;
   private lastAIResponse: number = 0;
   private aiResponseInterval: number = 300000; // 5 minutes between AI responses
-  private lastFeedingTime: number = 0; // Track when pet was last fed
+  private heldAnimation: PetAnimation | null = null; // Pinned by the Pomodoro engine
 
   constructor(initialPetState: PetState) {
     this.petState = initialPetState;
@@ -298,6 +300,9 @@ export class PetEngine {
 
   // Animation management
   setAnimation(animation: PetAnimation): void {
+    // Idle behaviours never replace a held animation
+    if (this.heldAnimation) return;
+
     if (this.petState.unlockedAnimations.includes(animation)) {
       this.petState.currentAnimation = animation;
       this.updatePetState({ currentAnimation: animation });
@@ -306,10 +311,19 @@ export class PetEngine {
     }
   }
 
+  // Pin an animation over idle behaviours (sit during Pomodoro work, a worried look on the focus guard); null releases it
+  holdAnimation(animation: PetAnimation | null): void {
+    if (animation === this.heldAnimation) return;
+
+    this.heldAnimation = animation;
+    this.petState.currentAnimation = animation ?? 'idle';
+    this.updatePetState({ currentAnimation: this.petState.currentAnimation });
+  }
+
   // Position management
+  // Where the pet rests is saved by the overlay as a placement, so this only moves it on this page
   setPosition(position: Position): void {
-    this.petState.position = position;
-    this.updatePetState({ position });
+    this.petState.position = { ...position };
   }
 
   // Mouse interaction
@@ -361,6 +375,7 @@ export class PetEngine {
         happiness: this.petState.happiness,
         lastInteraction: this.petState.lastInteraction
       });
+      await send('RECORD_PET_INTERACTION');
     } catch (error) {
       // Silent error handling
     }
@@ -384,10 +399,7 @@ export class PetEngine {
       if (this.petState.satiety < 100) {
         this.petState.satiety = Math.min(100, this.petState.satiety + 15);
       }
-    
-      // Track feeding time to prevent behavior loop from overriding
-      this.lastFeedingTime = Date.now();
-      
+
       this.setAnimation('excited');
       this.speak('feed');
       
@@ -397,6 +409,7 @@ export class PetEngine {
           happiness: this.petState.happiness,
           satiety: this.petState.satiety
         });
+        await send('RECORD_PET_INTERACTION');
       } catch (error) {
         console.error('focusPet: Error in updatePetState during feeding:', error);
       }
@@ -450,49 +463,18 @@ export class PetEngine {
     }, 300000); // Check for AI responses every 5 minutes
   }
 
-  private async updatePetBehavior(): Promise<void> {
-    const now = Date.now();
-    const timeSinceInteraction = now - this.petState.lastInteraction;
-    const timeSinceFeeding = now - this.lastFeedingTime;
-
-    // Don't override recent feeding changes (within 2 minutes)
-    if (timeSinceFeeding < 120000) { // 2 minutes
-      return; // Skip behavior updates if pet was recently fed
-    }
-
-    // Check if state was recently updated by another tab
-    if (storageManager.isStateRecentlyUpdated()) {
-      console.log('focusPet: Skipping behavior update - state recently updated by another tab');
-      return;
-    }
-
-    // Validate current pet state before making changes
-    if (this.petState.happiness < 0 || this.petState.satiety < 0 || this.petState.energy < 0) {
-      console.warn('focusPet: Invalid pet state detected in behavior loop, recovering...');
-      this.petState.happiness = Math.max(this.petState.happiness, 50); // Set to reasonable minimum, not 0
-      this.petState.satiety = Math.max(this.petState.satiety, 50); // Set to reasonable minimum, not 0
-      this.petState.energy = Math.max(this.petState.energy, 75); // Set to reasonable minimum, not 0
-    }
+  // Needs (happiness, energy, satiety) are simulated in the background; tabs only pick the animation
+  private updatePetBehavior(): void {
+    const timeSinceInteraction = Date.now() - this.petState.lastInteraction;
 
-    // Decrease happiness over time if not interacted with
-    if (timeSinceInteraction > 300000) { // 5 minutes
-      this.petState.happiness = Math.max(0, this.petState.happiness - 2);
-    }
-
-    // Nap after 5 minutes of inactivity
-    if (timeSinceInteraction > 300000) { // 5 minutes
+    // Nap once the pet has been left alone for a while
+    if (timeSinceInteraction > NAP_AFTER_MINUTES * 60 * 1000) {
       if (this.petState.currentAnimation !== 'nap') {
         this.setAnimation('nap');
         this.speak('nap');
       }
-      // Energy restoration while napping
-      const idleMinutes = Math.floor(timeSinceInteraction / 60000);
-      const energyGain = Math.min(3, idleMinutes); // Max 3 energy per 30-second cycle
-      this.petState.energy = Math.min(100, this.petState.energy + energyGain);
       // Do NOT perform random behaviors while napping
     } else {
-      // Decrease energy if recently interacted with (pet is active)
-      this.petState.energy = Math.max(0, this.petState.energy - 1);
       // Return to idle if was napping but now active
       if (this.petState.currentAnimation === 'nap') {
         this.setAnimation('idle');
@@ -502,48 +484,10 @@ export class PetEngine {
         this.performRandomBehavior();
       }
     }
-
-    // Decrease satiety over time (pet gets hungry) - slower rate
-    // Only decrease satiety every 2 minutes (4 cycles) to make it last longer
-    const cyclesSinceLastDecrease = Math.floor((now - (this.petState.lastSatietyDecrease || now)) / 30000);
-    if (cyclesSinceLastDecrease >= 4) { // Every 2 minutes (4 * 30 seconds)
-      this.petState.satiety = Math.max(0, this.petState.satiety - 1);
-      this.petState.lastSatietyDecrease = now;
-    }
-
-    // Update mood based on stats
-    this.updateMood();
-
-    // Only update if changes are significant enough to warrant storage
-    // For behavior loop, we'll always update since we're making intentional changes
-    const hasSignificantChanges = true;
-
-    if (hasSignificantChanges) {
-      try {
-        await this.updatePetState({
-          happiness: this.petState.happiness,
-          energy: this.petState.energy,
-          satiety: this.petState.satiety,
-          mood: this.petState.mood
-        });
-      } catch (error) {
-        console.error('focusPet: Error in behavior loop updatePetState:', error);
-      }
-    }
   }
 
   private updateMood(): void {
-    const avgStats = (this.petState.happiness + this.petState.energy + this.petState.satiety) / 3;
-    
-    if (avgStats >= 80) {
-      this.petState.mood = 'happy';
-    } else if (avgStats >= 60) {
-      this.petState.mood = 'content';
-    } else if (avgStats >= 40) {
-      this.petState.mood = 'bored';
-    } else {
-      this.petState.mood = 'neglected';
-    }
+    this.petState.mood = moodFromNeeds(this.petState.happiness, this.petState.energy, this.petState.satiety);
   }
 
   private performRandomBehavior(): void {
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PetState } from '../types';
+import { storageManager } from '../storage';
+import { progressionManager } from './progression-manager';
+
+// In-memory chrome.storage.local; values are copied like the real one
+const store: Record<string, unknown> = {};
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async (key: string) => ({ [key]: structuredClone(store[key]) }),
+      set: async (items: Record<string, unknown>) => {
+        Object.assign(store, structuredClone(items));
+      },
+      remove: async (key: string) => {
+        delete store[key];
+      },
+    },
+    onChanged: { addListener: () => {} },
+  },
+});
+
+function pet(): PetState {
+  const now = Date.now();
+  return {
+    id: 'pet_test',
+    type: 'cat',
+    name: 'Whiskers',
+    mood: 'content',
+    happiness: 75,
+    energy: 100,
+    satiety: 100,
+    treats: 5,
+    xp: 0,
+    lifetime: { focusMinutes: 0, treatsFed: 0, remindersHonoured: 0 },
+    unlockedAnimations: ['idle', 'walk', 'sit', 'nap'],
+    accessories: [],
+    position: { x: 100, y: 100 },
+    currentAnimation: 'idle',
+    lastInteraction: now,
+    needsUpdatedAt: now,
+  };
+}
+
+describe('progressionManager.awardXp', () => {
+  beforeEach(async () => {
+    Object.keys(store).forEach(key => delete store[key]);
+    await storageManager.setPetState(pet());
+  });
+
+  it('keeps both of two awards made back to back', async () => {
+    await Promise.all([progressionManager.awardXp('focusMinute'), progressionManager.awardXp('treatFed')]);
+
+    const petState = await storageManager.getPetState();
+    expect(petState?.xp).toBe(6);
+    expect(petState?.lifetime).toEqual({ focusMinutes: 1, treatsFed: 1, remindersHonoured: 0 });
+  });
+
+  it('keeps an award made straight after another pet write, and that write', async () => {
+    await storageManager.updatePetStateAtomic({ treats: 4 });
+    await progressionManager.awardXp('reminderHonoured');
+
+    const petState = await storageManager.getPetState();
+    expect(petState?.treats).toBe(4);
+    expect(petState?.xp).toBe(10);
+  });
+
+  it('multiplies the reward by the count', async () => {
+    await progressionManager.awardXp('focusMinute', 3);
+
+    const petState = await storageManager.getPetState();
+    expect(petState?.xp).toBe(3);
+    expect(petState?.lifetime?.focusMinutes).toBe(3);
+  });
+});
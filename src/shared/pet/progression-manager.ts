@@ -0,0 +1,48 @@
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { EMPTY_LIFETIME, LIFETIME_COUNTERS, XP_REWARDS, XpReason, levelForXp, stageForLevel } from './progression';
+
+export class ProgressionManager {
+  private static instance: ProgressionManager;
+
+  private constructor() {}
+
+  static getInstance(): ProgressionManager {
+    if (!ProgressionManager.instance) {
+      ProgressionManager.instance = new ProgressionManager();
+    }
+    return ProgressionManager.instance;
+  }
+
+  // Add XP for `reason` (times `count`) to the active pet, count it in the pet's lifetime stats,
+  // and announce a level-up or evolution
+  async awardXp(reason: XpReason, count: number = 1): Promise<void> {
+    try {
+      // XP is added to the stored value as it is when the write runs, so awards in quick succession all count
+      let xpBefore = 0;
+      const petState = await storageManager.updatePetState(current => {
+        xpBefore = current.xp ?? 0;
+        const lifetime = { ...EMPTY_LIFETIME, ...current.lifetime };
+        lifetime[LIFETIME_COUNTERS[reason]] += count;
+        return { xp: xpBefore + XP_REWARDS[reason] * count, lifetime };
+      });
+      if (!petState) return;
+
+      const levelBefore = levelForXp(xpBefore);
+      const level = levelForXp(petState.xp ?? 0);
+      if (level === levelBefore) return;
+
+      await eventBus.emit('pet:stateChanged', { petState });
+
+      const stage = stageForLevel(petState.type, level);
+      const evolved = stage !== stageForLevel(petState.type, levelBefore);
+      console.log('focusPet: Pet reached level', level, evolved ? `and grew into a ${stage}` : '');
+      await eventBus.emit('pet:leveledUp', { level, stage, evolved });
+    } catch (error) {
+      console.error('focusPet: Error awarding XP:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const progressionManager = ProgressionManager.getInstance();
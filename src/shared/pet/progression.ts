@@ -0,0 +1,79 @@
+import { FocusStats, PetLifetimeStats, PetStage, PetType } from '../types';
+
+// XP per thing the user does for themselves and their pet
+export const XP_REWARDS = {
+  focusMinute: 1,
+  treatFed: 5,
+  reminderHonoured: 10,
+};
+
+export type XpReason = keyof typeof XP_REWARDS;
+
+// The per-pet lifetime counter each XP reason also bumps
+export const LIFETIME_COUNTERS: Record<XpReason, keyof PetLifetimeStats> = {
+  focusMinute: 'focusMinutes',
+  treatFed: 'treatsFed',
+  reminderHonoured: 'remindersHonoured',
+};
+
+export const EMPTY_LIFETIME: PetLifetimeStats = { focusMinutes: 0, treatsFed: 0, remindersHonoured: 0 };
+
+export const PET_STAGE_ORDER: PetStage[] = ['baby', 'teen', 'adult'];
+
+// Level at which each type reaches a stage; dragons take longest to grow up
+export const PET_STAGES: Record<PetType, Record<PetStage, number>> = {
+  cat: { baby: 1, teen: 5, adult: 12 },
+  dog: { baby: 1, teen: 4, adult: 10 },
+  dragon: { baby: 1, teen: 8, adult: 20 },
+  penguin: { baby: 1, teen: 5, adult: 12 },
+  bunny: { baby: 1, teen: 3, adult: 9 },
+};
+
+export interface LevelProgress {
+  level: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number; // XP between this level and the next
+}
+
+// Total XP needed to reach `level`: 0, 50, 150, 300, 500, ... (each level costs 50 more than the last)
+export function xpForLevel(level: number): number {
+  return 25 * (level - 1) * level;
+}
+
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) {
+    level++;
+  }
+  return level;
+}
+
+export function levelProgress(xp: number): LevelProgress {
+  const level = levelForXp(xp);
+  return {
+    level,
+    xpIntoLevel: xp - xpForLevel(level),
+    xpForNextLevel: xpForLevel(level + 1) - xpForLevel(level),
+  };
+}
+
+export function stageForLevel(type: PetType, level: number): PetStage {
+  const thresholds = PET_STAGES[type];
+  return [...PET_STAGE_ORDER].reverse().find(stage => level >= thresholds[stage]) ?? 'baby';
+}
+
+// Lifetime stats for a pet that predates per-pet tracking; the user only had one pet, so it gets all of it
+export function lifetimeFromHistory(focusStats: FocusStats | null): PetLifetimeStats {
+  if (!focusStats) return { ...EMPTY_LIFETIME };
+  return {
+    focusMinutes: focusStats.totalFocusTime,
+    treatsFed: focusStats.treatsFed ?? 0,
+    remindersHonoured: focusStats.remindersHonoured ?? 0,
+  };
+}
+
+// Starting XP for a pet that predates leveling, so long-time users don't start over as a baby
+export function xpFromLifetime(lifetime: PetLifetimeStats): number {
+  return (Object.keys(LIFETIME_COUNTERS) as XpReason[])
+    .reduce((xp, reason) => xp + lifetime[LIFETIME_COUNTERS[reason]] * XP_REWARDS[reason], 0);
+}
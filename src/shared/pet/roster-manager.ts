@@ -0,0 +1,153 @@
+import { PetRoster, PetState, PetType } from '../types';
+import { storageManager, createPetId } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { EMPTY_LIFETIME } from './progression';
+import { petNeedsManager } from './needs-manager';
+
+export const PET_NAME_MAX_LENGTH = 20;
+
+export function validatePetName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Your pet needs a name.');
+  }
+  if (trimmed.length > PET_NAME_MAX_LENGTH) {
+    throw new Error(`Keep it under ${PET_NAME_MAX_LENGTH} characters.`);
+  }
+  return trimmed;
+}
+
+// A newly adopted pet has no treats of its own; the balance follows the active pet
+function createPetState(type: PetType, name: string): PetState {
+  const now = Date.now();
+  return {
+    id: createPetId(),
+    type,
+    name,
+    mood: 'content',
+    happiness: 75,
+    energy: 100,
+    satiety: 100,
+    treats: 0,
+    xp: 0,
+    lifetime: { ...EMPTY_LIFETIME },
+    adoptedAt: now,
+    unlockedAnimations: ['idle', 'walk', 'sit', 'nap'],
+    accessories: [],
+    position: { x: 100, y: 100 },
+    currentAnimation: 'idle',
+    lastInteraction: now,
+    needsUpdatedAt: now,
+  };
+}
+
+export class PetRosterManager {
+  private static instance: PetRosterManager;
+
+  private constructor() {}
+
+  static getInstance(): PetRosterManager {
+    if (!PetRosterManager.instance) {
+      PetRosterManager.instance = new PetRosterManager();
+    }
+    return PetRosterManager.instance;
+  }
+
+  async getRoster(): Promise<PetRoster> {
+    const roster = await storageManager.getPetRoster();
+    if (!roster) {
+      throw new Error('No pet found.');
+    }
+    return roster;
+  }
+
+  // Add a pet to the roster and make it the active one
+  async adopt(type: PetType, name: string): Promise<PetRoster> {
+    const pet = createPetState(type, validatePetName(name));
+    const roster = await storageManager.updatePetRoster(current => ({ ...current, pets: [...current.pets, pet] }));
+    if (!roster) {
+      throw new Error('No pet found.');
+    }
+    console.log('focusPet: Adopted', type, pet.name);
+    return this.switchTo(pet.id!);
+  }
+
+  // The treat balance moves to the incoming pet, and its needs clock restarts now:
+  // pets that aren't out don't get hungry or lonely
+  async switchTo(petId: string): Promise<PetRoster> {
+    await petNeedsManager.catchUp(); // Settle the outgoing pet up to now
+
+    // Read the balances inside the queued write so treats earned meanwhile move with the switch
+    let alreadyActive = false;
+    const updated = await storageManager.updatePetRoster(roster => {
+      const incoming = roster.pets.find(pet => pet.id === petId);
+      if (!incoming) {
+        throw new Error('That pet is not in your roster.');
+      }
+      if (petId === roster.activePetId) {
+        alreadyActive = true;
+        return null;
+      }
+
+      const outgoing = roster.pets.find(pet => pet.id === roster.activePetId);
+      const treats = incoming.treats + (outgoing?.treats ?? 0);
+      const now = Date.now();
+      return {
+        activePetId: petId,
+        pets: roster.pets.map(pet => {
+          if (pet.id === petId) return { ...pet, treats, lastInteraction: now, needsUpdatedAt: now };
+          if (pet.id === outgoing?.id) return { ...pet, treats: 0 };
+          return pet;
+        }),
+      };
+    });
+    if (alreadyActive) {
+      return this.getRoster();
+    }
+    if (!updated) {
+      throw new Error('No pet found.');
+    }
+
+    await this.syncSettings();
+    const petState = await storageManager.getPetState();
+    if (petState) {
+      await eventBus.emit('pet:stateChanged', { petState });
+    }
+    return updated;
+  }
+
+  // For the settings pet picker: switch to the first pet of `type`, or adopt one named `name`
+  async switchToType(type: PetType, name: string): Promise<PetRoster> {
+    const roster = await this.getRoster();
+    const existing = roster.pets.find(pet => pet.type === type);
+    return existing ? this.switchTo(existing.id!) : this.adopt(type, name);
+  }
+
+  async rename(name: string): Promise<void> {
+    const success = await storageManager.updatePetStateAtomic({ name: validatePetName(name) });
+    if (!success) {
+      throw new Error('State conflict, please try again');
+    }
+
+    await this.syncSettings();
+    const petState = await storageManager.getPetState();
+    if (petState) {
+      await eventBus.emit('pet:stateChanged', { petState });
+    }
+  }
+
+  // UserSettings.petType and petName mirror the active pet
+  private async syncSettings(): Promise<void> {
+    const [settings, petState] = await Promise.all([storageManager.getUserSettings(), storageManager.getPetState()]);
+    if (!settings || !petState || (settings.petType === petState.type && settings.petName === petState.name)) {
+      return;
+    }
+
+    const updated = { ...settings, petType: petState.type, petName: petState.name };
+    await storageManager.setUserSettings(updated);
+    await eventBus.emit('settings:updated', { settings: updated });
+  }
+}
+
+// Export singleton instance
+export const petRosterManager = PetRosterManager.getInstance();
@@ -0,0 +1,219 @@
+import { PomodoroPhase, PomodoroSettings, PomodoroState } from '../types';
+import { storageManager } from '../storage';
+import { eventBus } from '../events/event-bus';
+import { focusSessionManager } from '../focus/focus-session-manager';
+import { dndManager } from '../dnd/dnd-manager';
+
+export const POMODORO_ALARM = 'pomodoro_phase_end';
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+  autoStartBreaks: true,
+  autoStartWork: false,
+};
+
+const IDLE_STATE: PomodoroState = {
+  phase: 'work',
+  isRunning: false,
+  cyclesCompleted: 0,
+  totalCyclesCompleted: 0,
+};
+
+// Shown when a phase ends, keyed by the phase that comes next
+const PHASE_MESSAGES: Record<PomodoroPhase, string> = {
+  work: 'Break is over - ready for another focus round?',
+  shortBreak: 'Pomodoro complete! Take a short break and stretch.',
+  longBreak: 'Great set of Pomodoros! Time for a long break.',
+};
+
+export class PomodoroManager {
+  private static instance: PomodoroManager;
+
+  private constructor() {}
+
+  static getInstance(): PomodoroManager {
+    if (!PomodoroManager.instance) {
+      PomodoroManager.instance = new PomodoroManager();
+    }
+    return PomodoroManager.instance;
+  }
+
+  async getState(): Promise<PomodoroState> {
+    return (await storageManager.getPomodoroState()) ?? { ...IDLE_STATE };
+  }
+
+  // Start whichever phase is waiting (a work phase when the cycle is fresh)
+  async start(): Promise<PomodoroState> {
+    const state = await this.getState();
+    if (state.isRunning) return state;
+    return this.startPhase(state, state.phase);
+  }
+
+  // Abandon the cycle; a partly finished work phase is still logged
+  async stop(): Promise<PomodoroState> {
+    const state = await this.getState();
+    await chrome.alarms.clear(POMODORO_ALARM);
+
+    if (state.isRunning) {
+      await this.logPhase(state, Date.now());
+    }
+
+    const stoppedState: PomodoroState = { ...IDLE_STATE, totalCyclesCompleted: state.totalCyclesCompleted };
+    await this.saveState(stoppedState);
+    console.log('focusPet: Pomodoro stopped');
+    return stoppedState;
+  }
+
+  // End the current phase early and move on without a reward
+  async skip(): Promise<PomodoroState> {
+    const state = await this.getState();
+    if (!state.isRunning) return state;
+
+    await chrome.alarms.clear(POMODORO_ALARM);
+    return this.completePhase(state, false);
+  }
+
+  // Alarm handler: the running phase has reached its end time
+  async handleAlarm(): Promise<void> {
+    try {
+      const state = await this.getState();
+      if (!state.isRunning) return;
+      await this.completePhase(state, true);
+    } catch (error) {
+      console.error('focusPet: Error completing Pomodoro phase:', error);
+    }
+  }
+
+  private async startPhase(state: PomodoroState, phase: PomodoroPhase): Promise<PomodoroState> {
+    const settings = await this.getSettings();
+    const now = Date.now();
+    const phaseEndsAt = now + this.getPhaseMinutes(phase, settings) * 60 * 1000;
+
+    const nextState: PomodoroState = { ...state, phase, isRunning: true, phaseStartedAt: now, phaseEndsAt };
+    await chrome.alarms.create(POMODORO_ALARM, { when: phaseEndsAt });
+    await this.saveState(nextState);
+
+    console.log('focusPet: Pomodoro', phase, 'phase started, ends at', new Date(phaseEndsAt).toLocaleTimeString());
+    return nextState;
+  }
+
+  private async completePhase(state: PomodoroState, rewarded: boolean): Promise<PomodoroState> {
+    const settings = await this.getSettings();
+    await this.logPhase(state, Date.now());
+
+    let cyclesCompleted = state.cyclesCompleted;
+    let totalCyclesCompleted = state.totalCyclesCompleted;
+    let nextPhase: PomodoroPhase;
+
+    if (state.phase === 'work') {
+      if (rewarded) {
+        cyclesCompleted++;
+        totalCyclesCompleted++;
+        await this.awardTreat();
+      }
+      nextPhase = cyclesCompleted >= settings.cyclesBeforeLongBreak ? 'longBreak' : 'shortBreak';
+    } else {
+      if (state.phase === 'longBreak') {
+        cyclesCompleted = 0;
+      }
+      nextPhase = 'work';
+    }
+
+    const waitingState: PomodoroState = {
+      phase: nextPhase,
+      isRunning: false,
+      cyclesCompleted,
+      totalCyclesCompleted,
+    };
+
+    if (rewarded) {
+      await this.notify(nextPhase);
+    }
+
+    const autoStart = nextPhase === 'work' ? settings.autoStartWork : settings.autoStartBreaks;
+    if (autoStart) {
+      return this.startPhase(waitingState, nextPhase);
+    }
+
+    await this.saveState(waitingState);
+    return waitingState;
+  }
+
+  // Each phase becomes a FocusSession so it shows up in focus history
+  private async logPhase(state: PomodoroState, endTime: number): Promise<void> {
+    if (!state.phaseStartedAt) return;
+
+    await focusSessionManager.logSession({
+      startTime: state.phaseStartedAt,
+      endTime,
+      duration: Math.floor((endTime - state.phaseStartedAt) / 60000),
+      website: 'pomodoro',
+      pomodoroPhase: state.phase,
+    });
+  }
+
+  private async awardTreat(): Promise<void> {
+    const petState = await storageManager.getPetState();
+    if (!petState) return;
+
+    const success = await storageManager.updatePetStateAtomic({ treats: petState.treats + 1 });
+    if (!success) {
+      console.warn('focusPet: Could not award Pomodoro treat due to a state conflict');
+      return;
+    }
+
+    const updatedPetState = await storageManager.getPetState();
+    if (updatedPetState) {
+      await eventBus.emit('pet:stateChanged', { petState: updatedPetState });
+    }
+    await eventBus.emit('focus:treatEarned', { treats: 1, reason: 'pomodoro' });
+  }
+
+  // Quiet hours, meetings and manual Do Not Disturb silence the phase notification; the timer keeps going
+  private async notify(nextPhase: PomodoroPhase): Promise<void> {
+    try {
+      const dndReason = await dndManager.getSuppressionReason();
+      if (dndReason) {
+        console.log(`focusPet: Pomodoro notification suppressed (${dndReason})`);
+        return;
+      }
+
+      await chrome.notifications.create(`pomodoro_${Date.now()}`, {
+        type: 'basic',
+        iconUrl: 'assets/icons/icon48.png',
+        title: 'focusPet Pomodoro',
+        message: PHASE_MESSAGES[nextPhase],
+        priority: 1
+      });
+    } catch (error) {
+      console.error('focusPet: Error showing Pomodoro notification:', error);
+    }
+  }
+
+  private async saveState(state: PomodoroState): Promise<void> {
+    await storageManager.setPomodoroState(state);
+    await eventBus.emit('pomodoro:phaseChanged', { state });
+  }
+
+  private async getSettings(): Promise<PomodoroSettings> {
+    const settings = await storageManager.getUserSettings();
+    return { ...DEFAULT_POMODORO_SETTINGS, ...settings?.pomodoro };
+  }
+
+  private getPhaseMinutes(phase: PomodoroPhase, settings: PomodoroSettings): number {
+    switch (phase) {
+      case 'work':
+        return settings.workMinutes;
+      case 'shortBreak':
+        return settings.shortBreakMinutes;
+      case 'longBreak':
+        return settings.longBreakMinutes;
+    }
+  }
+}
+
+// Export singleton instance
+export const pomodoroManager = PomodoroManager.getInstance();
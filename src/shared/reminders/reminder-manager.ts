@@ -1,13 +1,40 @@
-import { Reminder, ReminderType, ReminderFrequency } from '../types';
+import { Reminder, ReminderType, ReminderFrequency, ReminderHistoryAction, ReminderHistoryEntry, ReminderSchedule } from '../types';
 import { storageManager } from '../storage';
+import { achievementManager } from '../achievements/achievement-manager';
+import { progressionManager } from '../pet/progression-manager';
+import { sendToTab } from '../messaging';
+import { eventBus } from '../events/event-bus';
+import { getNextOccurrence, periodicSchedule, validateSchedule } from './schedule';
+import { dndManager } from '../dnd/dnd-manager';
+import { dailyActivityTracker } from '../analytics/daily-activity-tracker';
+
+// An alarm firing this late means the browser was asleep or closed when it was due
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+// Cap for the 'fireAll' policy: how many missed occurrences a catch-up logs and counts in its notification
+const MAX_CATCH_UP_TRIGGERS = 10;
+// Scheduled reminders are walked slot by slot; give up counting after this many
+const MAX_MISSED_SCAN = 1000;
+
+// Reminder types that count as a healthy break when marked done
+const HEALTHY_BREAK_TYPES: ReminderType[] = ['water', 'posture', 'eye-rest'];
+// Reminder types that ask the user to step away; stepping away afterwards counts as a break taken
+const BREAK_REMINDER_TYPES: ReminderType[] = ['pomodoro', ...HEALTHY_BREAK_TYPES];
+
+// Chrome allows at most two buttons; closing the notification counts as skipping, and the
+// longer snooze is on the in-page card, which the notification points to
+export const REMINDER_NOTIFICATION_PREFIX = 'notification_';
+export const REMINDER_NOTIFICATION_BUTTONS = [{ title: '✅ Done' }, { title: '😴 Snooze 5 min' }];
+const REMINDER_NOTIFICATION_HINT = 'Close to skip · Snooze 15 min from your pet on the page';
 
 export class ReminderManager {
   private static instance: ReminderManager;
   private reminders: Reminder[] = [];
   private alarmIds: Set<string> = new Set();
+  private ready: Promise<void>;
+  private catchUpInProgress: Promise<void> | null = null;
 
   private constructor() {
-    this.initialize();
+    this.ready = this.initialize();
   }
 
   static getInstance(): ReminderManager {
@@ -19,12 +46,106 @@ export class ReminderManager {
 
   private async initialize(): Promise<void> {
     await this.loadReminders();
+    await this.runCatchUp();
     await this.scheduleAllReminders();
   }
 
+  // Reconcile overdue reminders after a browser restart or the machine waking from sleep
+  async catchUpMissedReminders(): Promise<void> {
+    await this.ready;
+    await this.runCatchUp();
+  }
+
+  // Passes from startup and wake events can overlap; never run two at once
+  private async runCatchUp(): Promise<void> {
+    if (!this.catchUpInProgress) {
+      this.catchUpInProgress = this.catchUpOverdueReminders().finally(() => {
+        this.catchUpInProgress = null;
+      });
+    }
+    await this.catchUpInProgress;
+  }
+
+  private async catchUpOverdueReminders(): Promise<void> {
+    const now = Date.now();
+    const overdue = this.reminders.filter(r => r.isActive && r.nextTrigger <= now);
+    if (overdue.length === 0) return;
+
+    console.log(`Catching up ${overdue.length} overdue reminder(s)`);
+    for (const reminder of overdue) {
+      await this.cancelReminder(reminder.id);
+      await this.catchUpReminder(reminder, now);
+    }
+    await this.saveReminders();
+
+    for (const reminder of overdue) {
+      await this.scheduleReminder(reminder);
+      await eventBus.emit('reminder:updated', { reminder });
+    }
+  }
+
+  // Apply the reminder's missed policy, then move it to its first slot after now
+  private async catchUpReminder(reminder: Reminder, now: number): Promise<void> {
+    const { missed, next } = this.findMissedOccurrences(reminder, now);
+    const policy = reminder.missedPolicy ?? 'fireOnce';
+    const triggers = policy === 'skip' ? 0 : policy === 'fireAll' ? Math.min(missed, MAX_CATCH_UP_TRIGGERS) : 1;
+
+    console.log(`Reminder ${reminder.title} missed ${missed} time(s), policy ${policy}: firing ${triggers}`);
+
+    if (triggers === 0) {
+      await this.recordHistory(reminder, 'missed');
+    }
+    if (triggers > 0) {
+      await this.triggerReminder(reminder, triggers);
+    }
+
+    if (next === null) {
+      reminder.isActive = false;
+    } else {
+      reminder.nextTrigger = next;
+    }
+  }
+
+  // How many occurrences fell between the stored nextTrigger and now, and the first one after now
+  private findMissedOccurrences(reminder: Reminder, now: number): { missed: number; next: number | null } {
+    if (reminder.frequency === 'once') {
+      return { missed: 1, next: null };
+    }
+
+    const schedule = this.getCalendarSchedule(reminder);
+    if (schedule) {
+      let missed = 0;
+      let slot: number | null = reminder.nextTrigger;
+      while (slot !== null && slot <= now && missed < MAX_MISSED_SCAN) {
+        missed++;
+        slot = getNextOccurrence(schedule, new Date(slot))?.getTime() ?? null;
+      }
+      if (slot !== null && slot <= now) {
+        slot = getNextOccurrence(schedule, new Date(now))?.getTime() ?? null;
+      }
+      return { missed, next: slot };
+    }
+    if (reminder.frequency === 'scheduled') {
+      return { missed: 1, next: null };
+    }
+
+    // Custom intervals keep their original cadence
+    const periodMs = (this.getPeriodInMinutes(reminder.frequency, reminder.interval) ?? 0) * 60 * 1000;
+    if (periodMs <= 0) {
+      return { missed: 1, next: null };
+    }
+    const missed = Math.floor((now - reminder.nextTrigger) / periodMs) + 1;
+    return { missed, next: reminder.nextTrigger + missed * periodMs };
+  }
+
   // Load reminders from storage
   private async loadReminders(): Promise<void> {
-    this.reminders = await storageManager.getReminders();
+    const reminders = await storageManager.getReminders();
+    // Snooze copies that fired and were never answered
+    this.reminders = reminders.filter(r => !(r.snoozedFrom && !r.isActive));
+    if (this.reminders.length !== reminders.length) {
+      await this.saveReminders();
+    }
   }
 
   // Save reminders to storage
@@ -41,15 +162,23 @@ export class ReminderManager {
     if (!reminderData.message || !reminderData.message.trim()) {
       throw new Error('Reminder message cannot be empty.');
     }
+    this.validateSchedule(reminderData);
+
     const reminder: Reminder = {
       ...reminderData,
       id: this.generateId(),
       createdAt: Date.now(),
     };
 
+    // Calendar schedules decide their own first occurrence
+    if (reminder.frequency === 'scheduled') {
+      await this.updateNextTriggerTime(reminder);
+    }
+
     this.reminders.push(reminder);
     await this.saveReminders();
     await this.scheduleReminder(reminder);
+    await eventBus.emit('reminder:created', { reminder });
 
     return reminder;
   }
@@ -63,9 +192,19 @@ export class ReminderManager {
     await this.cancelReminder(reminderId);
 
     // Update reminder
-    this.reminders[index] = { ...this.reminders[index], ...updates };
+    const reminder = { ...this.reminders[index], ...updates };
+    this.validateSchedule(reminder);
+
+    // A new schedule, or re-activating an overdue reminder, restarts the countdown from now
+    const scheduleChanged = updates.frequency !== undefined || updates.interval !== undefined || updates.schedule !== undefined;
+    if (updates.nextTrigger === undefined && reminder.isActive && (scheduleChanged || reminder.nextTrigger <= Date.now())) {
+      await this.updateNextTriggerTime(reminder);
+    }
+
+    this.reminders[index] = reminder;
     await this.saveReminders();
     await this.scheduleReminder(this.reminders[index]);
+    await eventBus.emit('reminder:updated', { reminder: this.reminders[index] });
 
     return this.reminders[index];
   }
@@ -78,10 +217,88 @@ export class ReminderManager {
     await this.cancelReminder(reminderId);
     this.reminders.splice(index, 1);
     await this.saveReminders();
+    await eventBus.emit('reminder:deleted', { reminderId });
 
     return true;
   }
 
+  // Remind again in a few minutes with a one-off copy of the reminder
+  async snoozeReminder(reminderId: string, snoozeMinutes: number): Promise<Reminder | null> {
+    const reminder = this.reminders.find(r => r.id === reminderId);
+    if (!reminder) return null;
+
+    const { id, ...reminderData } = reminder;
+    const snoozedReminder = await this.createReminder({
+      ...reminderData,
+      frequency: 'once',
+      nextTrigger: Date.now() + (snoozeMinutes * 60 * 1000),
+      isActive: true,
+      snoozedFrom: reminder.snoozedFrom ?? id
+    });
+
+    await this.clearNotification(reminderId);
+    await this.recordHistory(reminder, 'snoozed');
+    await this.discardSnoozedCopy(reminder);
+    return snoozedReminder;
+  }
+
+  // "Done": the user acted on the reminder
+  async completeReminder(reminderId: string): Promise<void> {
+    const reminder = this.reminders.find(r => r.id === reminderId);
+    if (!reminder) return;
+
+    await this.clearNotification(reminderId);
+    await this.recordHistory(reminder, 'completed');
+    await achievementManager.recordReminderHonoured();
+    await progressionManager.awardXp('reminderHonoured');
+
+    if (HEALTHY_BREAK_TYPES.includes(reminder.type)) {
+      await this.rewardHealthyBreak();
+    }
+    await this.discardSnoozedCopy(reminder);
+  }
+
+  // "Skip": the user chose not to act on this occurrence
+  async skipReminder(reminderId: string): Promise<void> {
+    const reminder = this.reminders.find(r => r.id === reminderId);
+    if (!reminder) return;
+
+    await this.clearNotification(reminderId);
+    await this.recordHistory(reminder, 'skipped');
+    await this.discardSnoozedCopy(reminder);
+  }
+
+  async dismissReminder(reminderId: string): Promise<void> {
+    const reminder = this.reminders.find(r => r.id === reminderId);
+    if (reminder) {
+      await this.recordHistory(reminder, 'dismissed');
+    }
+  }
+
+  // A snooze copy has done its job once the user answers it; its history lives under the original
+  private async discardSnoozedCopy(reminder: Reminder): Promise<void> {
+    if (reminder.snoozedFrom) {
+      await this.deleteReminder(reminder.id);
+    }
+  }
+
+  // Trigger/snooze/dismiss log, newest first, optionally for one reminder
+  async getHistory(reminderId?: string): Promise<ReminderHistoryEntry[]> {
+    const history = await storageManager.getReminderHistory();
+    return reminderId ? history.filter(entry => entry.reminderId === reminderId) : history;
+  }
+
+  private async recordHistory(reminder: Reminder, action: ReminderHistoryAction): Promise<void> {
+    await storageManager.addReminderHistoryEntry({
+      id: this.generateId(),
+      reminderId: reminder.snoozedFrom ?? reminder.id,
+      reminderTitle: reminder.title,
+      action,
+      timestamp: Date.now()
+    });
+    await dailyActivityTracker.recordReminderAction(action);
+  }
+
   // Get all reminders
   getReminders(): Reminder[] {
     return [...this.reminders];
@@ -107,9 +324,10 @@ export class ReminderManager {
     });
 
     if (delayInMinutes > 0) {
+      // Calendar-based reminders get a one-shot alarm, set again for the next slot after each trigger
       await chrome.alarms.create(alarmId, {
         delayInMinutes,
-        periodInMinutes: this.getPeriodInMinutes(reminder.frequency, reminder.interval)
+        periodInMinutes: this.getCalendarSchedule(reminder) ? undefined : this.getPeriodInMinutes(reminder.frequency, reminder.interval)
       });
       this.alarmIds.add(alarmId);
       console.log(`Alarm created: ${alarmId} in ${delayInMinutes} minutes`);
@@ -158,6 +376,8 @@ export class ReminderManager {
         return 7 * 24 * 60;
       case 'custom':
         return interval;
+      case 'scheduled':
+        return undefined; // One-shot alarm, rescheduled after each trigger
       default:
         return undefined;
     }
@@ -170,12 +390,19 @@ export class ReminderManager {
     
     if (!reminder || !reminder.isActive) return;
 
+    // Chrome fires a missed alarm once on wake; let the missed policy decide instead
+    if (Date.now() - reminder.nextTrigger > MISSED_GRACE_MS) {
+      await this.catchUpMissedReminders();
+      return;
+    }
+
     // Trigger the reminder
     await this.triggerReminder(reminder);
 
     // Update next trigger time for recurring reminders
     if (reminder.frequency !== 'once') {
       await this.updateNextTriggerTime(reminder);
+      await this.saveReminders();
       await this.scheduleReminder(reminder);
     } else {
       // Deactivate one-time reminders
@@ -184,8 +411,19 @@ export class ReminderManager {
     }
   }
 
-  // Trigger a reminder
-  private async triggerReminder(reminder: Reminder): Promise<void> {
+  // Trigger a reminder, or hold it for the digest while Do Not Disturb is on
+  // `occurrences` > 1 when catching up several missed slots: each is logged, but they share one notification
+  private async triggerReminder(reminder: Reminder, occurrences: number = 1): Promise<void> {
+    const dndReason = await dndManager.getSuppressionReason();
+    if (dndReason) {
+      console.log(`Suppressing reminder (${dndReason}): ${reminder.title}`);
+      await dndManager.queueReminder(reminder);
+      for (let i = 0; i < occurrences; i++) {
+        await this.recordHistory(reminder, 'suppressed');
+      }
+      return;
+    }
+
     console.log(`Triggering reminder: ${reminder.title} - ${reminder.message}`);
     
     // Send message to content script to show notification
@@ -195,10 +433,7 @@ export class ReminderManager {
     for (const tab of tabs) {
       if (tab.id) {
         try {
-          await chrome.tabs.sendMessage(tab.id, {
-            type: 'REMINDER_TRIGGERED',
-            reminder
-          });
+          await sendToTab(tab.id, 'REMINDER_TRIGGERED', { reminder });
           console.log(`Sent reminder to tab ${tab.id}`);
         } catch (error) {
           console.error(`Error sending reminder to tab ${tab.id}:`, error);
@@ -206,14 +441,17 @@ export class ReminderManager {
       }
     }
 
-    // Show browser notification if enabled
-    if (reminder.soundEnabled || reminder.visualEnabled) {
-      console.log('Showing browser notification');
-      await this.showBrowserNotification(reminder);
+    for (let i = 0; i < occurrences; i++) {
+      await this.recordHistory(reminder, 'triggered');
     }
-    
-    // Always show system notification (works when Chrome is not focused)
-    await this.showSystemNotification(reminder);
+    await eventBus.emit('reminder:triggered', { reminder });
+
+    if (BREAK_REMINDER_TYPES.includes(reminder.type)) {
+      await dailyActivityTracker.watchForBreak();
+    }
+
+    // One notification per reminder; a repeat replaces the previous one instead of stacking
+    await this.showNotification(reminder, occurrences);
   }
 
   // Update next trigger time for recurring reminders
@@ -223,14 +461,12 @@ export class ReminderManager {
 
     switch (reminder.frequency) {
       case 'hourly':
-        nextTrigger = now + (60 * 60 * 1000);
-        break;
       case 'daily':
-        nextTrigger = now + (24 * 60 * 60 * 1000);
-        break;
-      case 'weekly':
-        nextTrigger = now + (7 * 24 * 60 * 60 * 1000);
+      case 'weekly': {
+        const schedule = this.getCalendarSchedule(reminder)!;
+        nextTrigger = getNextOccurrence(schedule, new Date(now))?.getTime() ?? now;
         break;
+      }
       case 'custom':
         if (reminder.interval) {
           nextTrigger = now + (reminder.interval * 60 * 1000);
@@ -238,6 +474,17 @@ export class ReminderManager {
           nextTrigger = now;
         }
         break;
+      case 'scheduled': {
+        const next = reminder.schedule && getNextOccurrence(reminder.schedule, new Date(now));
+        if (!next) {
+          // Nothing left to fire
+          reminder.isActive = false;
+          nextTrigger = now;
+          break;
+        }
+        nextTrigger = next.getTime();
+        break;
+      }
       default:
         nextTrigger = now;
     }
@@ -245,52 +492,81 @@ export class ReminderManager {
     reminder.nextTrigger = nextTrigger;
   }
 
-  // Show browser notification
-  private async showBrowserNotification(reminder: Reminder): Promise<void> {
+  // Hourly, daily and weekly reminders follow the calendar slot of their current trigger time
+  private getCalendarSchedule(reminder: Reminder): ReminderSchedule | null {
+    switch (reminder.frequency) {
+      case 'hourly':
+      case 'daily':
+      case 'weekly':
+        return periodicSchedule(reminder.frequency, new Date(reminder.nextTrigger));
+      case 'scheduled':
+        return reminder.schedule ?? null;
+      default:
+        return null;
+    }
+  }
+
+  private validateSchedule(reminder: Pick<Reminder, 'frequency' | 'schedule'>): void {
+    if (reminder.frequency !== 'scheduled') return;
+    if (!reminder.schedule) {
+      throw new Error('Scheduled reminders need a schedule.');
+    }
+    const error = validateSchedule(reminder.schedule);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  // Show the reminder notification (works even when Chrome is not focused)
+  private async showNotification(reminder: Reminder, occurrences: number = 1): Promise<void> {
     try {
-      await chrome.notifications.create(`notification_${reminder.id}`, {
+      await chrome.notifications.create(`${REMINDER_NOTIFICATION_PREFIX}${reminder.id}`, {
         type: 'basic',
         iconUrl: 'assets/icons/icon48.png',
-        title: 'focusPet Reminder',
-        message: reminder.message,
+        title: `focusPet Reminder: ${reminder.title}`,
+        message: occurrences > 1 ? `${reminder.message} (missed ${occurrences} times)` : reminder.message,
+        buttons: REMINDER_NOTIFICATION_BUTTONS,
+        contextMessage: REMINDER_NOTIFICATION_HINT,
+        requireInteraction: reminder.visualEnabled,
+        silent: !reminder.soundEnabled,
         priority: 1
       });
-      console.log('Browser notification created for:', reminder.title);
+      console.log('Notification created for:', reminder.title);
     } catch (error) {
-      console.error('Error showing browser notification:', error);
+      console.error('Error showing notification:', error);
     }
   }
 
-  // Show system notification (works even when Chrome is not focused)
-  private async showSystemNotification(reminder: Reminder): Promise<void> {
+  // Answered elsewhere (overlay card or a notification button), so the notification is stale
+  private async clearNotification(reminderId: string): Promise<void> {
     try {
-      await chrome.notifications.create(`system_notification_${reminder.id}`, {
-        type: 'basic',
-        iconUrl: 'assets/icons/icon48.png',
-        title: 'focusPet Reminder',
-        message: reminder.message,
-        priority: 1
-      });
-      console.log('System notification created for:', reminder.title);
+      await chrome.notifications.clear(`${REMINDER_NOTIFICATION_PREFIX}${reminderId}`);
     } catch (error) {
-      console.error('Error showing system notification:', error);
+      console.error('Error clearing notification:', error);
+    }
+  }
+
+  // Water, posture and eye-rest breaks make the pet happier
+  private async rewardHealthyBreak(): Promise<void> {
+    const focusStats = await storageManager.getFocusStats();
+    if (focusStats) {
+      focusStats.healthyBreaks = (focusStats.healthyBreaks || 0) + 1;
+      await storageManager.setFocusStats(focusStats);
+    }
+
+    const updatedPetState = await storageManager.updatePetState(petState => ({
+      happiness: Math.min(100, petState.happiness + 10),
+      energy: Math.min(100, petState.energy + 5)
+    }));
+    if (updatedPetState) {
+      await eventBus.emit('pet:stateChanged', { petState: updatedPetState });
     }
   }
 
   // Create preset reminders
   async createPresetReminder(type: ReminderType): Promise<Reminder> {
-    const presets: Record<ReminderType, any> = {
-      pomodoro: {
-        title: 'Pomodoro Timer',
-        message: 'Time for a break! Take 5 minutes to stretch.',
-        type: 'pomodoro' as ReminderType,
-        frequency: 'custom' as ReminderFrequency,
-        interval: 25,
-        nextTrigger: Date.now() + (25 * 60 * 1000),
-        isActive: true,
-        soundEnabled: true,
-        visualEnabled: true
-      },
+    // Work/break cycles are the Pomodoro timer's job; there is no Pomodoro reminder preset
+    const presets: Partial<Record<ReminderType, any>> = {
       posture: {
         title: 'Posture Check',
         message: 'Time to check your posture! Sit up straight.',
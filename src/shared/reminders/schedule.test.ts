@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { ReminderSchedule } from '../types';
+import { getNextOccurrence, periodicSchedule, validateSchedule } from './schedule';
+
+// Pin a zone with DST; in 2026 clocks spring forward on 8 March and fall back on 1 November.
+// This only takes effect in a process of its own, which is why the test script uses the forks pool.
+process.env.TZ = 'America/New_York';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function local(month: number, day: number, hours = 0, minutes = 0): Date {
+  return new Date(2026, month - 1, day, hours, minutes);
+}
+
+function next(schedule: ReminderSchedule, from: Date): Date {
+  const occurrence = getNextOccurrence(schedule, from);
+  if (!occurrence) throw new Error('Schedule never fires');
+  return occurrence;
+}
+
+describe('periodicSchedule', () => {
+  it('keeps an hourly reminder on its minute past the hour', () => {
+    const schedule = periodicSchedule('hourly', local(4, 10, 9, 15));
+
+    expect(next(schedule, local(4, 10, 9, 15))).toEqual(local(4, 10, 10, 15));
+    expect(next(schedule, local(4, 10, 23, 40))).toEqual(local(4, 11, 0, 15));
+  });
+
+  it('keeps a daily reminder on its time of day', () => {
+    const schedule = periodicSchedule('daily', local(4, 10, 8, 30));
+
+    expect(next(schedule, local(4, 10, 8, 30))).toEqual(local(4, 11, 8, 30));
+    expect(next(schedule, local(4, 11, 7, 0))).toEqual(local(4, 11, 8, 30));
+  });
+
+  it('keeps a weekly reminder on its weekday and time', () => {
+    // 10 April 2026 is a Friday
+    const schedule = periodicSchedule('weekly', local(4, 10, 17, 0));
+
+    expect(next(schedule, local(4, 10, 17, 0))).toEqual(local(4, 17, 17, 0));
+    expect(next(schedule, local(4, 13, 12, 0))).toEqual(local(4, 17, 17, 0));
+  });
+});
+
+describe('getNextOccurrence across DST changes', () => {
+  it('keeps the wall-clock time over spring-forward, a 23 hour day', () => {
+    const schedule = periodicSchedule('daily', local(3, 7, 9, 0));
+    const occurrence = next(schedule, local(3, 7, 9, 0));
+
+    expect(occurrence).toEqual(local(3, 8, 9, 0));
+    expect(occurrence.getTime() - local(3, 7, 9, 0).getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('keeps the wall-clock time over fall-back, a 25 hour day', () => {
+    const schedule = periodicSchedule('daily', local(10, 31, 9, 0));
+    const occurrence = next(schedule, local(10, 31, 9, 0));
+
+    expect(occurrence).toEqual(local(11, 1, 9, 0));
+    expect(occurrence.getTime() - local(10, 31, 9, 0).getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('skips a daily time that does not exist on the spring-forward day', () => {
+    const schedule = periodicSchedule('daily', local(3, 7, 2, 30));
+    const occurrence = next(schedule, local(3, 7, 2, 30));
+
+    expect(occurrence.getDate()).toBe(9);
+    expect(occurrence.getHours()).toBe(2);
+    expect(occurrence.getMinutes()).toBe(30);
+  });
+
+  it('fires a daily time in the repeated fall-back hour only once', () => {
+    const schedule = periodicSchedule('daily', local(10, 31, 1, 30));
+    const first = next(schedule, local(11, 1, 0, 0));
+
+    expect(first.getHours()).toBe(1);
+    expect(first.getMinutes()).toBe(30);
+    expect(next(schedule, first)).toEqual(local(11, 2, 1, 30));
+  });
+
+  it('skips the missing hour for an hourly reminder at spring-forward', () => {
+    const schedule = periodicSchedule('hourly', local(3, 8, 1, 15));
+    const occurrence = next(schedule, local(3, 8, 1, 20));
+
+    expect(occurrence.getHours()).toBe(3);
+    expect(occurrence.getMinutes()).toBe(15);
+    expect(occurrence.getTime() - local(3, 8, 1, 20).getTime()).toBe(55 * 60 * 1000);
+  });
+
+  it('moves an hourly reminder on to the next wall-clock hour at fall-back', () => {
+    const schedule = periodicSchedule('hourly', local(10, 31, 1, 15));
+    const occurrence = next(schedule, local(11, 1, 1, 20));
+
+    expect(occurrence.getHours()).toBe(2);
+    expect(occurrence.getMinutes()).toBe(15);
+  });
+});
+
+describe('getNextOccurrence for cron day fields', () => {
+  // Friday 10 April 2026, after 09:00; the 13th is the following Monday
+  const from = local(4, 10, 10, 0);
+  const cron = (expression: string): ReminderSchedule => ({ kind: 'cron', expression });
+
+  it('fires on either day when both day-of-month and day-of-week are restricted', () => {
+    expect(next(cron('0 9 13 * 5'), from)).toEqual(local(4, 13, 9, 0));
+    expect(next(cron('0 9 13 * 5'), local(4, 13, 10, 0))).toEqual(local(4, 17, 9, 0));
+  });
+
+  it('uses only day-of-month when day-of-week is *', () => {
+    expect(next(cron('0 9 13 * *'), from)).toEqual(local(4, 13, 9, 0));
+  });
+
+  it('uses only day-of-week when day-of-month is *', () => {
+    expect(next(cron('0 9 * * 5'), from)).toEqual(local(4, 17, 9, 0));
+  });
+
+  it('treats a stepped * day-of-month as unrestricted', () => {
+    expect(next(cron('0 9 */2 * 5'), from)).toEqual(local(4, 17, 9, 0));
+  });
+
+  it('fires every day when both day fields are *', () => {
+    expect(next(cron('0 9 * * *'), from)).toEqual(local(4, 11, 9, 0));
+  });
+});
+
+describe('getNextOccurrence for time windows', () => {
+  const window: ReminderSchedule = { kind: 'window', days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '23:00', everyMinutes: 45 };
+
+  it('steps through the window and resumes at its start the next day', () => {
+    expect(next(window, local(4, 10, 21, 0))).toEqual(local(4, 10, 22, 0));
+    expect(next(window, local(4, 10, 22, 0))).toEqual(local(4, 10, 22, 45));
+    expect(next(window, local(4, 10, 22, 45))).toEqual(local(4, 11, 22, 0));
+  });
+
+  it('rejects a window that crosses midnight', () => {
+    expect(validateSchedule({ ...window, start: '23:00', end: '01:00' })).toBe('The window must start before it ends.');
+  });
+});
@@ -0,0 +1,217 @@
+import { ReminderFrequency, ReminderSchedule } from '../types';
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Far enough ahead for rare cron dates such as 29 February
+const MAX_SEARCH_DAYS = 4 * 366;
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday = 0
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+// 'HH:MM' -> minutes after midnight
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    throw new Error(`Invalid time "${time}", expected HH:MM.`);
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time "${time}".`);
+  }
+  return hours * 60 + minutes;
+}
+
+function formatTimeOfDay(minuteOfDay: number): string {
+  const hours = String(Math.floor(minuteOfDay / 60)).padStart(2, '0');
+  const minutes = String(minuteOfDay % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+// Parse one cron field: '*', '5', '1-5', '*/15', '0-30/10' and comma-separated lists of those
+function parseCronField(field: string, min: number, max: number): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}".`);
+    }
+
+    const [range, stepText] = [match[1], match[2]];
+    const step = stepText ? Number(stepText) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to ?? (stepText ? max : from);
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}.`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week.');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    // Both 0 and 7 mean Sunday
+    daysOfWeek: [...new Set(parseCronField(dayOfWeek, 0, 7).map(day => day % 7))],
+    // As in cron, a field starting with '*' (including steps such as '*/2') doesn't restrict the day
+    domRestricted: !dayOfMonth.startsWith('*'),
+    dowRestricted: !dayOfWeek.startsWith('*'),
+  };
+}
+
+function cronMatchesDay(cron: CronFields, date: Date): boolean {
+  if (!cron.months.includes(date.getMonth() + 1)) return false;
+
+  const domMatches = cron.daysOfMonth.includes(date.getDate());
+  const dowMatches = cron.daysOfWeek.includes(date.getDay());
+
+  // Standard cron: when both day fields are restricted, either one may match
+  if (cron.domRestricted && cron.dowRestricted) return domMatches || dowMatches;
+  if (cron.domRestricted) return domMatches;
+  if (cron.dowRestricted) return dowMatches;
+  return true;
+}
+
+// Minutes after midnight at which the schedule fires on days it matches
+function minutesOfDay(schedule: ReminderSchedule): number[] {
+  switch (schedule.kind) {
+    case 'times':
+      return schedule.times.map(parseTimeOfDay).sort((a, b) => a - b);
+    case 'window': {
+      const start = parseTimeOfDay(schedule.start);
+      const end = parseTimeOfDay(schedule.end);
+      const slots: number[] = [];
+      for (let minute = start; minute <= end; minute += schedule.everyMinutes) {
+        slots.push(minute);
+      }
+      return slots;
+    }
+    case 'cron': {
+      const cron = parseCron(schedule.expression);
+      return cron.hours.flatMap(hour => cron.minutes.map(minute => hour * 60 + minute));
+    }
+  }
+}
+
+function dayMatcher(schedule: ReminderSchedule): (date: Date) => boolean {
+  if (schedule.kind === 'cron') {
+    const cron = parseCron(schedule.expression);
+    return date => cronMatchesDay(cron, date);
+  }
+  return date => schedule.days.includes(date.getDay());
+}
+
+// The calendar slots an hourly, daily or weekly reminder keeps to: the minute, time of day and
+// weekday of `anchor`, so repeats don't drift with late alarms and daily ones survive DST changes
+export function periodicSchedule(frequency: Extract<ReminderFrequency, 'hourly' | 'daily' | 'weekly'>, anchor: Date): ReminderSchedule {
+  const time = formatTimeOfDay(anchor.getHours() * 60 + anchor.getMinutes());
+  switch (frequency) {
+    case 'hourly':
+      return { kind: 'cron', expression: `${anchor.getMinutes()} * * * *` };
+    case 'daily':
+      return { kind: 'times', days: [0, 1, 2, 3, 4, 5, 6], times: [time] };
+    case 'weekly':
+      return { kind: 'times', days: [anchor.getDay()], times: [time] };
+  }
+}
+
+// Returns an error message, or null when the schedule is usable
+export function validateSchedule(schedule: ReminderSchedule): string | null {
+  try {
+    if (schedule.kind !== 'cron' && schedule.days.length === 0) {
+      return 'Pick at least one day.';
+    }
+    if (schedule.kind === 'times' && schedule.times.length === 0) {
+      return 'Add at least one time of day.';
+    }
+    if (schedule.kind === 'window') {
+      if (!Number.isInteger(schedule.everyMinutes) || schedule.everyMinutes < 1 || schedule.everyMinutes > MINUTES_PER_DAY) {
+        return 'Repeat interval must be between 1 and 1440 minutes.';
+      }
+      if (parseTimeOfDay(schedule.start) > parseTimeOfDay(schedule.end)) {
+        return 'The window must start before it ends.';
+      }
+    }
+    if (minutesOfDay(schedule).length === 0) {
+      return 'This schedule never fires.';
+    }
+    return getNextOccurrence(schedule) ? null : 'This schedule never fires.';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Next local time strictly after `from` at which the schedule fires, or null if it never does.
+// Dates are built from calendar fields so DST changes keep the wall-clock time; times that do
+// not exist on a spring-forward day are skipped.
+export function getNextOccurrence(schedule: ReminderSchedule, from: Date = new Date()): Date | null {
+  const slots = minutesOfDay(schedule);
+  const matchesDay = dayMatcher(schedule);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    if (!matchesDay(day)) continue;
+
+    for (const slot of slots) {
+      const hours = Math.floor(slot / 60);
+      const minutes = slot % 60;
+      const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+
+      if (candidate.getHours() !== hours || candidate.getMinutes() !== minutes) continue;
+      if (candidate.getTime() > from.getTime()) return candidate;
+    }
+  }
+
+  return null;
+}
+
+function describeDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'every day';
+  if (sorted.join() === WEEKDAYS.join()) return 'weekdays';
+  if (sorted.join() === '0,6') return 'weekends';
+  return sorted.map(day => DAY_NAMES[day]).join(', ');
+}
+
+// Short human-readable summary, e.g. "weekdays at 10:30, 15:00"
+export function describeSchedule(schedule: ReminderSchedule): string {
+  switch (schedule.kind) {
+    case 'times':
+      return `${describeDays(schedule.days)} at ${schedule.times.map(time => formatTimeOfDay(parseTimeOfDay(time))).join(', ')}`;
+    case 'window':
+      return `${describeDays(schedule.days)}, every ${schedule.everyMinutes} min between ${schedule.start} and ${schedule.end}`;
+    case 'cron':
+      return `cron: ${schedule.expression}`;
+  }
+}
@@ -0,0 +1,105 @@
+import { PetState, ShopItem } from '../types';
+import { storageManager } from '../storage';
+
+// Everything treats can buy - add new items here
+export const SHOP_CATALOG: ShopItem[] = [
+  // Animations the pet doesn't start with
+  { id: 'anim_play', kind: 'animation', name: 'Playtime', icon: '🎾', price: 5, animation: 'play' },
+  { id: 'anim_excited', kind: 'animation', name: 'Happy Dance', icon: '🎉', price: 8, animation: 'excited' },
+  { id: 'anim_worried', kind: 'animation', name: 'Worried Look', icon: '😟', price: 6, animation: 'worried' },
+  { id: 'anim_sad', kind: 'animation', name: 'Puppy Eyes', icon: '🥺', price: 6, animation: 'sad' },
+
+  // Accessories, drawn over the sprite
+  { id: 'acc_bow', kind: 'accessory', name: 'Bow', icon: '🎀', price: 10, slot: 'head' },
+  { id: 'acc_top_hat', kind: 'accessory', name: 'Top Hat', icon: '🎩', price: 15, slot: 'head' },
+  { id: 'acc_crown', kind: 'accessory', name: 'Crown', icon: '👑', price: 40, slot: 'head' },
+  { id: 'acc_sunglasses', kind: 'accessory', name: 'Sunglasses', icon: '🕶️', price: 20, slot: 'face' },
+  { id: 'acc_scarf', kind: 'accessory', name: 'Scarf', icon: '🧣', price: 12, slot: 'neck' },
+];
+
+export function getShopItem(itemId: string): ShopItem | undefined {
+  return SHOP_CATALOG.find(item => item.id === itemId);
+}
+
+export function isOwned(petState: PetState, item: ShopItem): boolean {
+  return item.kind === 'animation'
+    ? petState.unlockedAnimations.includes(item.animation!)
+    : petState.accessories.includes(item.id);
+}
+
+// Equipped items in catalog order, so accessories always layer the same way
+export function getEquippedAccessories(petState: PetState): ShopItem[] {
+  const equipped = petState.equippedAccessories ?? [];
+  return SHOP_CATALOG.filter(item => item.kind === 'accessory' && equipped.includes(item.id));
+}
+
+// Swap `item` in, replacing whatever else is worn in its slot
+function withEquipped(petState: PetState, item: ShopItem): string[] {
+  const others = getEquippedAccessories(petState).filter(worn => worn.slot !== item.slot);
+  return [...others.map(worn => worn.id), item.id];
+}
+
+export class ShopManager {
+  private static instance: ShopManager;
+
+  private constructor() {}
+
+  static getInstance(): ShopManager {
+    if (!ShopManager.instance) {
+      ShopManager.instance = new ShopManager();
+    }
+    return ShopManager.instance;
+  }
+
+  // Spend treats on a catalog item; accessories are put on straight away. The checks run on the
+  // stored pet inside the queued write, so treats earned a moment ago are never overwritten.
+  async purchase(itemId: string): Promise<PetState> {
+    const item = getShopItem(itemId);
+    if (!item) {
+      throw new Error(`Unknown item "${itemId}".`);
+    }
+
+    const petState = await storageManager.updatePetState(current => {
+      if (isOwned(current, item)) {
+        throw new Error(`You already own ${item.name}.`);
+      }
+      if (current.treats < item.price) {
+        throw new Error(`${item.name} costs ${item.price} treats.`);
+      }
+
+      const updates: Partial<PetState> = item.kind === 'animation'
+        ? { unlockedAnimations: [...current.unlockedAnimations, item.animation!] }
+        : { accessories: [...current.accessories, item.id], equippedAccessories: withEquipped(current, item) };
+      return { ...updates, treats: current.treats - item.price };
+    });
+    if (!petState) {
+      throw new Error('No pet found.');
+    }
+    return petState;
+  }
+
+  async setEquipped(itemId: string, equipped: boolean): Promise<PetState> {
+    const item = getShopItem(itemId);
+    if (!item || item.kind !== 'accessory') {
+      throw new Error(`"${itemId}" is not an accessory.`);
+    }
+
+    const petState = await storageManager.updatePetState(current => {
+      if (!isOwned(current, item)) {
+        throw new Error(`You don't own ${item.name} yet.`);
+      }
+      return {
+        equippedAccessories: equipped
+          ? withEquipped(current, item)
+          : (current.equippedAccessories ?? []).filter(id => id !== item.id),
+      };
+    });
+    if (!petState) {
+      throw new Error('No pet found.');
+    }
+    return petState;
+  }
+}
+
+// Export singleton instance
+export const shopManager = ShopManager.getInstance();
@@ -1,12 +1,24 @@
-import { STORAGE_KEYS, PetState, UserSettings, Reminder, FocusStats, FocusSession, AnalyticsData } from '../types';
+import { STORAGE_KEYS, PetState, PetRoster, UserSettings, Reminder, FocusStats, FocusSession, AnalyticsData, FocusLedger, ReminderHistoryEntry, PomodoroState, DndState, FocusGuardState, PetPlacements } from '../types';
 import { StoryData } from '../analytics/story-generator';
+import { DailyActivityLog } from '../analytics/types';
+import { lifetimeFromHistory, xpFromLifetime } from '../pet/progression';
+
+// Id given to the pet carried over from single-pet storage; fixed so concurrent migrations agree
+const MIGRATED_PET_ID = 'pet_original';
+
+// Fields that pets saved by older versions may still carry
+type LegacyPetState = PetState & { hunger?: number; lastSatietyDecrease?: number };
+
+export function createPetId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
 
 export class StorageManager {
   private static instance: StorageManager;
   private contextValid: boolean = true;
   private contextCheckTimer: NodeJS.Timeout | null = null;
   private stateVersion: number = 0; // Version control for state changes
-  private stateLock: boolean = false; // Prevent concurrent state updates
+  private petWriteQueue: Promise<unknown> = Promise.resolve(); // Pet writes run one after another
   private lastStateUpdate: number = 0; // Track last state update time
 
   private constructor() {
@@ -59,9 +71,43 @@ export class StorageManager {
     }
   }
 
-  // Pet state management with version control and locking
+  // All adopted pets. The first read after an upgrade moves the single stored pet into a roster.
+  async getPetRoster(): Promise<PetRoster | null> {
+    const roster = await this.get<PetRoster>(STORAGE_KEYS.PET_ROSTER);
+    if (roster) return roster;
+
+    const legacyPetState = await this.get<PetState>(STORAGE_KEYS.PET_STATE);
+    if (!legacyPetState) return null;
+
+    console.log('focusPet: Moving single pet into the pet roster');
+    const migrated: PetRoster = {
+      activePetId: MIGRATED_PET_ID,
+      pets: [{ ...legacyPetState, id: MIGRATED_PET_ID }],
+    };
+    await this.setPetRoster(migrated);
+    await this.remove(STORAGE_KEYS.PET_STATE);
+    return migrated;
+  }
+
+  async setPetRoster(roster: PetRoster): Promise<void> {
+    await this.set(STORAGE_KEYS.PET_ROSTER, roster);
+  }
+
+  // Roster changes (adopting, switching) go through the pet write queue too, so they can't
+  // overwrite a pet write made in between; returns the saved roster, or null when skipped
+  async updatePetRoster(mutate: (roster: PetRoster) => PetRoster | null): Promise<PetRoster | null> {
+    return this.queuePetWrite(async () => {
+      const roster = await this.getPetRoster();
+      const updated = roster ? mutate(roster) : null;
+      if (!updated) return null;
+      await this.setPetRoster(updated);
+      return updated;
+    });
+  }
+
+  // Pet state management with version control and locking; always the active pet
   async getPetState(): Promise<PetState | null> {
-    const petState = await this.get<PetState>(STORAGE_KEYS.PET_STATE);
+    const petState = await this.readActivePetState();
     
     // Validate pet state and recover if corrupted
     if (petState) {
@@ -76,56 +122,83 @@ export class StorageManager {
     return petState;
   }
 
+  private async readActivePetState(): Promise<PetState | null> {
+    const roster = await this.getPetRoster();
+    return roster?.pets.find(pet => pet.id === roster.activePetId) ?? null;
+  }
+
+  // Each pet write waits for the ones queued before it, so a read-modify-write never
+  // works from a state another write is about to replace
+  private queuePetWrite<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.petWriteQueue.then(write);
+    this.petWriteQueue = result.catch(() => undefined);
+    return result;
+  }
+
   async setPetState(petState: PetState): Promise<void> {
-    // Prevent concurrent state updates
-    if (this.stateLock) {
-      console.log('focusPet: State update blocked - another update in progress');
-      return;
+    await this.queuePetWrite(() => this.writePetState(petState));
+  }
+
+  // Apply `mutate`'s changes to the active pet as it is once earlier writes have landed;
+  // returns the saved state, or null when there is no pet or `mutate` returns null to skip
+  async updatePetState(mutate: (petState: PetState) => Partial<PetState> | null): Promise<PetState | null> {
+    return this.queuePetWrite(async () => {
+      const currentState = await this.readActivePetState();
+      if (!currentState) {
+        console.warn('focusPet: No current pet state to update');
+        return null;
+      }
+
+      const updates = mutate(currentState);
+      if (!updates) return null;
+      return this.writePetState({ ...currentState, ...updates });
+    });
+  }
+
+  // Atomic state update - only update if current version matches; false when nothing was saved
+  async updatePetStateAtomic(updates: Partial<PetState>, expectedVersion?: number): Promise<boolean> {
+    try {
+      const updatedState = await this.updatePetState(currentState => {
+        if (expectedVersion !== undefined && currentState.version !== expectedVersion) {
+          console.log('focusPet: Version mismatch, skipping update. Expected:', expectedVersion, 'Current:', currentState.version);
+          return null;
+        }
+        return updates;
+      });
+      return updatedState !== null;
+    } catch (error) {
+      return false; // Already logged by writePetState
     }
+  }
 
+  private async writePetState(petState: PetState): Promise<PetState> {
     // Validate pet state before saving
     const validatedPetState = this.validateAndRecoverPetState(petState);
     
     // Add version control
     validatedPetState.version = (validatedPetState.version || 0) + 1;
     validatedPetState.lastUpdate = Date.now();
-    
-    this.stateLock = true;
     this.lastStateUpdate = Date.now();
     
     try {
-      await this.set(STORAGE_KEYS.PET_STATE, validatedPetState);
+      // A pet is saved under its own id, so a write from a stale copy never lands on another pet
+      const roster = await this.getPetRoster();
+      const id = validatedPetState.id ?? roster?.activePetId ?? createPetId();
+      const petToStore = { ...validatedPetState, id };
+      const pets = roster?.pets ?? [];
+      await this.setPetRoster({
+        activePetId: roster?.activePetId ?? id,
+        pets: pets.some(pet => pet.id === id)
+          ? pets.map(pet => (pet.id === id ? petToStore : pet))
+          : [...pets, petToStore],
+      });
       this.stateVersion = validatedPetState.version;
       console.log('focusPet: Pet state updated successfully, version:', this.stateVersion);
+      return petToStore;
     } catch (error) {
       console.error('focusPet: Error setting pet state:', error);
       throw error;
-    } finally {
-      // Release lock after a short delay to prevent rapid successive updates
-      setTimeout(() => {
-        this.stateLock = false;
-      }, 100);
-    }
-  }
-
-  // Atomic state update - only update if current version matches
-  async updatePetStateAtomic(updates: Partial<PetState>, expectedVersion?: number): Promise<boolean> {
-    const currentState = await this.getPetState();
-    if (!currentState) {
-      console.warn('focusPet: No current pet state to update');
-      return false;
-    }
-
-    // Check version if provided
-    if (expectedVersion !== undefined && currentState.version !== expectedVersion) {
-      console.log('focusPet: Version mismatch, skipping update. Expected:', expectedVersion, 'Current:', currentState.version);
-      return false;
     }
-
-    // Apply updates
-    const updatedState = { ...currentState, ...updates };
-    await this.setPetState(updatedState);
-    return true;
   }
 
   // Get current state version for optimistic updates
@@ -213,7 +286,7 @@ export class StorageManager {
       petState.energy = Math.max(petState.energy, 75);
       petState.treats = Math.max(petState.treats, 3);
       petState.lastInteraction = now;
-      petState.lastSatietyDecrease = now;
+      petState.needsUpdatedAt = now;
       petState.mood = 'content';
     }
     
@@ -238,10 +311,6 @@ export class StorageManager {
       petState.lastInteraction = now;
     }
     
-    if (!petState.lastSatietyDecrease) {
-      petState.lastSatietyDecrease = now;
-    }
-    
     return petState;
   }
 
@@ -285,6 +354,22 @@ export class StorageManager {
     await this.setReminders(filteredReminders);
   }
 
+  // Reminder history management (newest first)
+  async getReminderHistory(): Promise<ReminderHistoryEntry[]> {
+    const history = await this.get<ReminderHistoryEntry[]>(STORAGE_KEYS.REMINDER_HISTORY);
+    return history || [];
+  }
+
+  async addReminderHistoryEntry(entry: ReminderHistoryEntry): Promise<void> {
+    const history = await this.getReminderHistory();
+    history.unshift(entry); // Add to beginning
+    // Keep only last 500 entries
+    if (history.length > 500) {
+      history.splice(500);
+    }
+    await this.set(STORAGE_KEYS.REMINDER_HISTORY, history);
+  }
+
   // Focus tracking management
   async getFocusStats(): Promise<FocusStats | null> {
     return this.get<FocusStats>(STORAGE_KEYS.FOCUS_STATS);
@@ -318,6 +403,69 @@ export class StorageManager {
     }
   }
 
+  // Focus ledger management (per-day focus minutes for streaks)
+  async getFocusLedger(): Promise<FocusLedger> {
+    const ledger = await this.get<FocusLedger>(STORAGE_KEYS.FOCUS_LEDGER);
+    return ledger || { days: {}, frozenDays: [], freezesAvailable: 0 };
+  }
+
+  async setFocusLedger(ledger: FocusLedger): Promise<void> {
+    await this.set(STORAGE_KEYS.FOCUS_LEDGER, ledger);
+  }
+
+  // Pomodoro state management
+  async getPomodoroState(): Promise<PomodoroState | null> {
+    return this.get<PomodoroState>(STORAGE_KEYS.POMODORO_STATE);
+  }
+
+  async setPomodoroState(state: PomodoroState): Promise<void> {
+    await this.set(STORAGE_KEYS.POMODORO_STATE, state);
+  }
+
+  // Do Not Disturb state management
+  async getDndState(): Promise<DndState> {
+    const state = await this.get<DndState>(STORAGE_KEYS.DND_STATE);
+    return state || { queue: [] };
+  }
+
+  async setDndState(state: DndState): Promise<void> {
+    await this.set(STORAGE_KEYS.DND_STATE, state);
+  }
+
+  // Focus guard state management
+  async getFocusGuardState(): Promise<FocusGuardState> {
+    const state = await this.get<FocusGuardState>(STORAGE_KEYS.FOCUS_GUARD_STATE);
+    return state || { grants: {} };
+  }
+
+  async setFocusGuardState(state: FocusGuardState): Promise<void> {
+    await this.set(STORAGE_KEYS.FOCUS_GUARD_STATE, state);
+  }
+
+  // Dragged pet positions
+  async getPetPlacements(): Promise<PetPlacements> {
+    const placements = await this.get<PetPlacements>(STORAGE_KEYS.PET_PLACEMENTS);
+    return placements || { sites: {} };
+  }
+
+  async setPetPlacements(placements: PetPlacements): Promise<void> {
+    await this.set(STORAGE_KEYS.PET_PLACEMENTS, placements);
+  }
+
+  async clearPetPlacements(): Promise<void> {
+    await this.remove(STORAGE_KEYS.PET_PLACEMENTS);
+  }
+
+  // Daily activity management (per-day counters behind the bedtime stories)
+  async getDailyActivityLog(): Promise<DailyActivityLog> {
+    const log = await this.get<DailyActivityLog>(STORAGE_KEYS.DAILY_ACTIVITY);
+    return log || { days: {} };
+  }
+
+  async setDailyActivityLog(log: DailyActivityLog): Promise<void> {
+    await this.set(STORAGE_KEYS.DAILY_ACTIVITY, log);
+  }
+
   // Analytics data management
   async getAnalyticsData(): Promise<AnalyticsData | null> {
     return this.get<AnalyticsData>(STORAGE_KEYS.ANALYTICS_DATA);
@@ -372,7 +520,7 @@ export class StorageManager {
 
   // Initialize default data
   async initializeDefaults(): Promise<void> {
-    const petState = await this.getPetState();
+    const petState: LegacyPetState | null = await this.getPetState();
     if (!petState) {
       const defaultPetState: PetState = {
         type: 'cat',
@@ -382,34 +530,58 @@ export class StorageManager {
         energy: 100,
         satiety: 100,
         treats: 5,
+        xp: 0,
+        lifetime: { focusMinutes: 0, treatsFed: 0, remindersHonoured: 0 },
+        adoptedAt: Date.now(),
         unlockedAnimations: ['idle', 'walk', 'sit', 'nap'],
         accessories: [],
         position: { x: 100, y: 100 },
         currentAnimation: 'idle',
         lastInteraction: Date.now(),
-        lastSatietyDecrease: Date.now(),
+        needsUpdatedAt: Date.now(),
       };
       await this.setPetState(defaultPetState);
     } else {
+      // Upgrades are applied together and saved once
+      let upgraded = false;
+
       // Ensure existing pets have nap animation unlocked
       if (!petState.unlockedAnimations.includes('nap')) {
         console.log('focusPet: Adding nap animation to existing pet');
         petState.unlockedAnimations.push('nap');
-        await this.setPetState(petState);
+        upgraded = true;
       }
       
       // Migrate hunger to satiety for existing pets
-      if ('hunger' in petState && !('satiety' in petState)) {
+      if (petState.hunger !== undefined && petState.satiety === undefined) {
         console.log('focusPet: Migrating hunger to satiety for existing pet');
-        (petState as any).satiety = 100 - (petState as any).hunger;
-        delete (petState as any).hunger;
-        await this.setPetState(petState);
+        petState.satiety = 100 - petState.hunger;
+        delete petState.hunger;
+        upgraded = true;
       }
       
-      // Initialize lastSatietyDecrease for existing pets
-      if (!('lastSatietyDecrease' in petState)) {
-        console.log('focusPet: Adding lastSatietyDecrease to existing pet');
-        petState.lastSatietyDecrease = Date.now();
+      // The old per-tab loop stamped lastSatietyDecrease every couple of minutes, so it is
+      // the best guess for when the needs were last brought up to date
+      if (petState.lastSatietyDecrease !== undefined) {
+        console.log('focusPet: Migrating lastSatietyDecrease to needsUpdatedAt');
+        petState.needsUpdatedAt = petState.lastSatietyDecrease;
+        delete petState.lastSatietyDecrease;
+        upgraded = true;
+      }
+
+      // Pets from before per-pet stats get the lifetime history (and the XP it would have earned)
+      if (!petState.lifetime) {
+        petState.lifetime = lifetimeFromHistory(await this.getFocusStats());
+        console.log('focusPet: Giving existing pet its lifetime history', petState.lifetime);
+        upgraded = true;
+      }
+      if (petState.xp === undefined) {
+        petState.xp = xpFromLifetime(petState.lifetime);
+        console.log('focusPet: Starting existing pet at', petState.xp, 'XP');
+        upgraded = true;
+      }
+
+      if (upgraded) {
         await this.setPetState(petState);
       }
     }
@@ -431,6 +603,43 @@ export class StorageManager {
           enabled: true,
           trackingInterval: 30,
           treatRewardInterval: 30,
+          streakMinimumMinutes: 25,
+          idleThresholdSeconds: 60,
+          countedActivityTypes: ['work', 'research'],
+        },
+        pomodoro: {
+          workMinutes: 25,
+          shortBreakMinutes: 5,
+          longBreakMinutes: 15,
+          cyclesBeforeLongBreak: 4,
+          autoStartBreaks: true,
+          autoStartWork: false,
+        },
+        doNotDisturb: {
+          quietHours: {
+            enabled: false,
+            start: '22:00',
+            end: '07:00',
+            days: [0, 1, 2, 3, 4, 5, 6],
+          },
+          suppressDuringMeetings: true,
+        },
+        pageClassification: {
+          enabled: false,
+          titleStorage: 'none',
+          domainDepth: {},
+        },
+        focusGuard: {
+          enabled: false,
+          blockedActivityTypes: ['social', 'entertainment'],
+          allowedDomains: [],
+        },
+        overlay: {
+          hidden: false,
+          hideInFullscreen: true,
+          hiddenSites: [],
+          onlyOnSites: [],
+          rememberPosition: 'global',
         },
         analytics: {
           enabled: true,
@@ -0,0 +1,192 @@
+import { FocusLedger, StreakDay, StreakHistory } from '../types';
+import { storageManager } from '../storage';
+
+export const STREAK_ROLLOVER_ALARM = 'streak_rollover';
+export const STREAK_FREEZE_COST = 10; // treats
+const DEFAULT_MINIMUM_MINUTES = 25;
+const MAX_FREEZES = 1;
+const LEDGER_RETENTION_DAYS = 400; // Enough for a full-year heatmap
+
+// Local-timezone day key (YYYY-MM-DD)
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  // Construct from calendar fields so DST transitions never skip or repeat a day
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export class StreakManager {
+  private static instance: StreakManager;
+
+  private constructor() {}
+
+  static getInstance(): StreakManager {
+    if (!StreakManager.instance) {
+      StreakManager.instance = new StreakManager();
+    }
+    return StreakManager.instance;
+  }
+
+  // Schedule the next rollover at local midnight (one-shot, rescheduled after each run)
+  async scheduleRollover(): Promise<void> {
+    const nextMidnight = addDays(new Date(), 1);
+    await chrome.alarms.create(STREAK_ROLLOVER_ALARM, { when: nextMidnight.getTime() });
+    console.log('focusPet: Streak rollover scheduled for', nextMidnight.toLocaleString());
+  }
+
+  // Add focus minutes to today's ledger entry and refresh the streak
+  async recordFocusMinutes(minutes: number): Promise<void> {
+    const ledger = await storageManager.getFocusLedger();
+    const today = toDateKey(new Date());
+    ledger.days[today] = (ledger.days[today] || 0) + minutes;
+    await storageManager.setFocusLedger(ledger);
+    await this.updateStreak(ledger);
+  }
+
+  // Midnight job: settle every day since the last rollover, covering a missed day with a freeze if one is available
+  async rollOver(): Promise<void> {
+    try {
+      const ledger = await storageManager.getFocusLedger();
+      const now = new Date();
+      const today = toDateKey(now);
+
+      if (ledger.lastRolloverDate !== today) {
+        const minimumMinutes = await this.getMinimumMinutes();
+        const alive = (date: string) => (ledger.days[date] || 0) >= minimumMinutes || ledger.frozenDays.includes(date);
+
+        // The browser may have been closed for several days; each of them is settled in turn,
+        // so the first missed day uses the freeze and the next one breaks the streak
+        const earliest = addDays(now, -LEDGER_RETENTION_DAYS);
+        const lastRollover = ledger.lastRolloverDate ? fromDateKey(ledger.lastRolloverDate) : addDays(now, -1);
+        let day = lastRollover > earliest ? lastRollover : earliest;
+
+        for (; toDateKey(day) < today; day = addDays(day, 1)) {
+          const date = toDateKey(day);
+          const streakWasAlive = alive(toDateKey(addDays(day, -1)));
+
+          if (!alive(date) && streakWasAlive && ledger.freezesAvailable > 0) {
+            ledger.freezesAvailable -= 1;
+            ledger.frozenDays.push(date);
+            console.log('focusPet: Streak freeze used for', date);
+          }
+        }
+
+        this.pruneLedger(ledger);
+        ledger.lastRolloverDate = today;
+        await storageManager.setFocusLedger(ledger);
+      }
+
+      await this.updateStreak(ledger);
+    } catch (error) {
+      console.error('focusPet: Error rolling over streak:', error);
+    } finally {
+      await this.scheduleRollover();
+    }
+  }
+
+  // Spend treats on a streak freeze; only one can be held at a time
+  async buyFreeze(): Promise<FocusLedger> {
+    const { freezesAvailable } = await storageManager.getFocusLedger();
+    if (freezesAvailable >= MAX_FREEZES) {
+      throw new Error('You already have a streak freeze.');
+    }
+
+    // Check and spend the treats inside the queued write so a concurrent feed or award can't be lost
+    const petState = await storageManager.updatePetState(current => {
+      if (current.treats < STREAK_FREEZE_COST) {
+        throw new Error(`A streak freeze costs ${STREAK_FREEZE_COST} treats.`);
+      }
+      return { treats: current.treats - STREAK_FREEZE_COST };
+    });
+    if (!petState) {
+      throw new Error('No pet found.');
+    }
+
+    // Only record the freeze once it has been paid for
+    const ledger = await storageManager.getFocusLedger();
+    ledger.freezesAvailable = Math.min(ledger.freezesAvailable + 1, MAX_FREEZES);
+    await storageManager.setFocusLedger(ledger);
+    return ledger;
+  }
+
+  // Per-day history, oldest first, for the popup calendar heatmap
+  async getHistory(days: number = 90): Promise<StreakHistory> {
+    const ledger = await storageManager.getFocusLedger();
+    const minimumMinutes = await this.getMinimumMinutes();
+    const today = new Date();
+    const history: StreakDay[] = [];
+
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = toDateKey(addDays(today, -offset));
+      const minutes = ledger.days[date] || 0;
+      history.push({
+        date,
+        minutes,
+        qualified: minutes >= minimumMinutes,
+        frozen: ledger.frozenDays.includes(date),
+      });
+    }
+
+    return { days: history, freezesAvailable: ledger.freezesAvailable, minimumMinutes };
+  }
+
+  // Walk back from today counting qualified days; frozen days keep the streak alive without adding to it
+  computeCurrentStreak(ledger: FocusLedger, minimumMinutes: number, now: Date = new Date()): number {
+    const qualifies = (date: string) => (ledger.days[date] || 0) >= minimumMinutes;
+    let streak = qualifies(toDateKey(now)) ? 1 : 0;
+
+    // Today is still in progress, so an unqualified today does not break the streak
+    for (let offset = 1; ; offset++) {
+      const date = toDateKey(addDays(now, -offset));
+      if (qualifies(date)) {
+        streak++;
+      } else if (!ledger.frozenDays.includes(date)) {
+        break;
+      }
+    }
+
+    return streak;
+  }
+
+  private async updateStreak(ledger: FocusLedger): Promise<void> {
+    const focusStats = await storageManager.getFocusStats();
+    if (!focusStats) return;
+
+    const minimumMinutes = await this.getMinimumMinutes();
+    const currentStreak = this.computeCurrentStreak(ledger, minimumMinutes);
+    const longestStreak = Math.max(focusStats.longestStreak || 0, currentStreak);
+
+    if (focusStats.currentStreak !== currentStreak || focusStats.longestStreak !== longestStreak) {
+      await storageManager.setFocusStats({ ...focusStats, currentStreak, longestStreak });
+      console.log('focusPet: Streak updated - current:', currentStreak, 'longest:', longestStreak);
+    }
+  }
+
+  private async getMinimumMinutes(): Promise<number> {
+    const settings = await storageManager.getUserSettings();
+    return settings?.focusTracking?.streakMinimumMinutes ?? DEFAULT_MINIMUM_MINUTES;
+  }
+
+  private pruneLedger(ledger: FocusLedger): void {
+    const cutoff = toDateKey(addDays(new Date(), -LEDGER_RETENTION_DAYS));
+    for (const date of Object.keys(ledger.days)) {
+      if (date < cutoff) {
+        delete ledger.days[date];
+      }
+    }
+    ledger.frozenDays = ledger.frozenDays.filter(date => date >= cutoff);
+  }
+}
+
+// Export singleton instance
+export const streakManager = StreakManager.getInstance();
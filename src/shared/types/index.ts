@@ -5,7 +5,10 @@ export type PetMood = 'happy' | 'content' | 'bored' | 'neglected';
 
 export type PetAnimation = 'idle' | 'walk' | 'sit' | 'nap' | 'play' | 'excited' | 'worried' | 'sad';
 
+export type PetStage = 'baby' | 'teen' | 'adult';
+
 export interface PetState {
+  id?: string; // roster id; assigned when the pet is first stored
   type: PetType;
   name: string;
   mood: PetMood;
@@ -13,12 +16,16 @@ export interface PetState {
   energy: number; // 0-100
   satiety: number; // 0-100 (100 = full/satisfied)
   treats: number;
+  xp?: number; // lifetime experience; level and evolution stage are derived from it
+  lifetime?: PetLifetimeStats;
+  adoptedAt?: number;
   unlockedAnimations: PetAnimation[];
-  accessories: string[];
+  accessories: string[]; // owned shop accessory ids
+  equippedAccessories?: string[]; // worn accessory ids, at most one per slot
   position: Position;
   currentAnimation: PetAnimation;
   lastInteraction: number;
-  lastSatietyDecrease?: number; // timestamp of last satiety decrease
+  needsUpdatedAt?: number; // wall-clock time the needs simulation has run up to
   aiPersonality?: string; // AI personality type
   aiMemory?: {
     favoriteActivities: string[];
@@ -34,10 +41,32 @@ export interface Position {
   y: number;
 }
 
+// What this pet has been through with the user, counted while it was the active pet
+export interface PetLifetimeStats {
+  focusMinutes: number;
+  treatsFed: number;
+  remindersHonoured: number;
+}
+
+// Every adopted pet; only the active one is shown, earns XP and has its needs simulated
+export interface PetRoster {
+  activePetId: string;
+  pets: PetState[]; // in adoption order
+}
+
 // Reminder System
 export type ReminderType = 'pomodoro' | 'posture' | 'water' | 'eye-rest' | 'custom' | 'test';
 
-export type ReminderFrequency = 'once' | 'daily' | 'weekly' | 'hourly' | 'custom';
+export type ReminderFrequency = 'once' | 'daily' | 'weekly' | 'hourly' | 'custom' | 'scheduled';
+
+// What to do with occurrences that came due while the browser was asleep or closed
+export type MissedReminderPolicy = 'fireOnce' | 'skip' | 'fireAll';
+
+// Calendar rules for 'scheduled' reminders; days are 0-6 with Sunday = 0, times are local 'HH:MM'
+export type ReminderSchedule =
+  | { kind: 'times'; days: number[]; times: string[] } // e.g. weekdays at 10:30 and 15:00
+  | { kind: 'window'; days: number[]; everyMinutes: number; start: string; end: string } // e.g. every 45 min 09:00-18:00
+  | { kind: 'cron'; expression: string }; // standard 5-field cron, evaluated in local time
 
 export interface Reminder {
   id: string;
@@ -46,11 +75,24 @@ export interface Reminder {
   type: ReminderType;
   frequency: ReminderFrequency;
   interval?: number; // minutes
+  schedule?: ReminderSchedule; // required when frequency is 'scheduled'
+  missedPolicy?: MissedReminderPolicy; // defaults to 'fireOnce'
   nextTrigger: number;
   isActive: boolean;
   soundEnabled: boolean;
   visualEnabled: boolean;
   createdAt: number;
+  snoozedFrom?: string; // id of the reminder this one-off snooze was created from
+}
+
+export type ReminderHistoryAction = 'triggered' | 'completed' | 'snoozed' | 'skipped' | 'dismissed' | 'suppressed' | 'missed';
+
+export interface ReminderHistoryEntry {
+  id: string;
+  reminderId: string; // snoozed copies are logged against the reminder they came from
+  reminderTitle: string;
+  action: ReminderHistoryAction;
+  timestamp: number;
 }
 
 // Settings and Configuration
@@ -69,7 +111,16 @@ export interface UserSettings {
     enabled: boolean;
     trackingInterval: number; // minutes
     treatRewardInterval: number; // minutes
+    streakMinimumMinutes?: number; // focus minutes needed for a day to count towards a streak
+    idleThresholdSeconds?: number; // no input for this long pauses focus accrual (min 15)
+    countedActivityTypes?: ActivityType[]; // activity types that count as focus time
   };
+  pomodoro?: PomodoroSettings;
+  doNotDisturb?: DoNotDisturbSettings;
+  domainRules?: DomainRule[]; // user categorization rules, checked before the built-in list
+  pageClassification?: PageClassificationSettings;
+  focusGuard?: FocusGuardSettings;
+  overlay?: OverlaySettings;
   analytics: {
     enabled: boolean;
     trackDomains: boolean;
@@ -81,6 +132,110 @@ export interface UserSettings {
   theme: 'light' | 'dark' | 'auto';
 }
 
+// Where the pet overlay is drawn; a site may be a domain (covers subdomains) or a host wildcard
+export interface OverlaySettings {
+  hidden: boolean; // hide the pet on every page
+  hideInFullscreen: boolean; // e.g. full-screen video or presentations
+  hiddenSites: string[]; // deny list; always wins
+  onlyOnSites: string[]; // allow list; when non-empty the pet appears only on these sites
+  rememberPosition?: 'global' | 'site'; // where a dragged pet's spot is saved
+}
+
+// A spot the user dragged the pet to, kept relative to the nearest viewport edge or centre line
+// so it lands in the same place when the window is a different size
+export type PlacementAnchor = 'start' | 'center' | 'end';
+
+export interface PetPlacement {
+  horizontal: PlacementAnchor;
+  vertical: PlacementAnchor;
+  offsetX: number; // px from the anchor line
+  offsetY: number;
+}
+
+export interface PetPlacements {
+  global?: PetPlacement;
+  sites: Record<string, PetPlacement>; // site key -> placement, used when rememberPosition is 'site'
+}
+
+// Do Not Disturb
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // local 'HH:MM'
+  end: string; // local 'HH:MM'; earlier than start means the window runs past midnight
+  days: number[]; // days the window starts on, 0-6 with Sunday = 0
+}
+
+export interface DoNotDisturbSettings {
+  quietHours: QuietHours;
+  suppressDuringMeetings: boolean; // hold reminders while a video-call site is the active tab
+}
+
+export type DndReason = 'manual' | 'meeting' | 'quietHours';
+
+export interface SuppressedReminder {
+  reminderId: string; // snoozed copies are queued under the reminder they came from
+  title: string;
+  message: string;
+  firstSuppressedAt: number; // timestamp (ms)
+  count: number; // times it fired while suppressed
+}
+
+export interface DndState {
+  manualUntil?: number; // timestamp (ms) the manual toggle expires
+  queue: SuppressedReminder[];
+}
+
+export interface DndStatus {
+  active: boolean;
+  reason: DndReason | null;
+  manualUntil?: number;
+  queued: number; // reminders waiting for the digest
+}
+
+// Focus guard
+export interface FocusGuardSettings {
+  enabled: boolean; // interrupt blocked sites while a focus session or Pomodoro work phase runs
+  blockedActivityTypes: ActivityType[];
+  allowedDomains: string[]; // never interrupted; a domain covers its subdomains
+}
+
+export type FocusGuardChoice = 'goBack' | 'snooze' | 'allow';
+
+export interface FocusGuardState {
+  grants: Record<string, number>; // host -> when its paid-for extra minutes run out (ms)
+}
+
+// What the interstitial needs to render
+export interface FocusGuardPrompt {
+  domain: string;
+  activityType: ActivityType;
+  petAnimation: 'worried' | 'sad'; // sad when the user already strayed to this site today
+  treats: number;
+  treatCost: number;
+  graceMinutes: number;
+}
+
+// Pomodoro
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+  autoStartBreaks: boolean; // start the break as soon as a work phase ends
+  autoStartWork: boolean; // start the next work phase as soon as a break ends
+}
+
+export interface PomodoroState {
+  phase: PomodoroPhase;
+  isRunning: boolean; // false while waiting for the user to start the next phase
+  phaseStartedAt?: number; // timestamp (ms)
+  phaseEndsAt?: number; // timestamp (ms)
+  cyclesCompleted: number; // work phases completed since the last long break
+  totalCyclesCompleted: number;
+}
+
 // Focus Tracking
 export interface FocusSession {
   id: string;
@@ -89,6 +244,10 @@ export interface FocusSession {
   duration: number; // minutes
   website: string;
   isActive: boolean;
+  isPaused?: boolean;
+  pausedAt?: number; // timestamp (ms) the current pause started
+  pausedTime?: number; // total ms spent paused
+  pomodoroPhase?: PomodoroPhase; // set on sessions logged by the Pomodoro engine
 }
 
 export interface FocusStats {
@@ -98,15 +257,72 @@ export interface FocusStats {
   treatsEarned: number;
   achievements: Achievement[];
   lastTreatTime?: number; // timestamp (ms) of last treat reward
+  treatsFed?: number; // lifetime treats fed to the pet
+  remindersHonoured?: number; // lifetime reminders marked done
+  healthyBreaks?: number; // lifetime water, posture and eye-rest reminders marked done
+}
+
+// Streak Tracking
+export interface FocusLedger {
+  days: Record<string, number>; // local YYYY-MM-DD -> focus minutes
+  frozenDays: string[]; // missed days covered by a streak freeze
+  freezesAvailable: number;
+  lastRolloverDate?: string; // local YYYY-MM-DD of the last midnight rollover
+}
+
+export interface StreakDay {
+  date: string; // local YYYY-MM-DD
+  minutes: number;
+  qualified: boolean;
+  frozen: boolean;
+}
+
+export interface StreakHistory {
+  days: StreakDay[]; // oldest first
+  freezesAvailable: number;
+  minimumMinutes: number;
 }
 
 // Analytics Types
 export type ActivityType = 'work' | 'research' | 'social' | 'entertainment' | 'shopping' | 'general';
 export type FocusLevel = 'high' | 'medium' | 'low';
 
+// How a domain rule's pattern is compared with a page URL
+export type DomainRuleMatch = 'exact' | 'suffix' | 'wildcard' | 'pathPrefix' | 'regex';
+
+export interface DomainRule {
+  id: string;
+  match: DomainRuleMatch;
+  pattern: string;
+  activityType: ActivityType;
+  focusLevel?: FocusLevel; // defaults to the usual level for the activity type
+  priority: number; // higher runs first; every user rule runs before the built-in list
+  enabled: boolean;
+}
+
+// How much of a page the automatic classifier may look at
+export type ClassificationDepth = 'domain' | 'path' | 'title';
+
+// What the activity log keeps of a page title
+export type TitleStorage = 'none' | 'hashed' | 'redacted' | 'raw';
+
+export interface PageClassificationSettings {
+  enabled: boolean; // opt-in: refine categories using URL paths and page-title keywords
+  titleStorage: TitleStorage;
+  domainDepth: Record<string, ClassificationDepth>; // per-site overrides; a key covers its subdomains
+}
+
+// Shape of an exported rules file
+export interface DomainRuleSet {
+  version: 1;
+  exportedAt: number;
+  rules: DomainRule[];
+}
+
 export interface BrowsingActivity {
   domain: string;
-  pageTitle: string;
+  pageTitle: string; // empty unless title storage allows it; keyword-only when redacted
+  titleHash?: string; // SHA-256 of the normalised title, when titles are stored hashed
   timeSpent: number; // minutes
   focusLevel: FocusLevel;
   activityType: ActivityType;
@@ -155,6 +371,33 @@ export interface Achievement {
   unlockedAt?: number;
 }
 
+// Achievement catalog
+export type AchievementMetric = 'focusMinutes' | 'streakDays' | 'treatsFed' | 'remindersHonoured' | 'storyNights';
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+// Treat shop
+export type ShopItemKind = 'animation' | 'accessory';
+
+export type AccessorySlot = 'head' | 'face' | 'neck';
+
+export interface ShopItem {
+  id: string;
+  kind: ShopItemKind;
+  name: string;
+  icon: string; // emoji; also what is drawn over the sprite for accessories
+  price: number; // treats
+  animation?: PetAnimation; // for kind 'animation'
+  slot?: AccessorySlot; // for kind 'accessory'
+}
+
 // Animation and Visual
 export interface AnimationFrame {
   x: number;
@@ -172,19 +415,29 @@ export interface PetSprite {
 
 // Storage Keys
 export const STORAGE_KEYS = {
-  PET_STATE: 'focusPet_petState',
+  PET_STATE: 'focusPet_petState', // single-pet storage from before the roster; migrated on first read
+  PET_ROSTER: 'focusPet_petRoster',
   USER_SETTINGS: 'focusPet_userSettings',
   REMINDERS: 'focusPet_reminders',
   FOCUS_STATS: 'focusPet_focusStats',
   FOCUS_SESSIONS: 'focusPet_focusSessions',
   ANALYTICS_DATA: 'focusPet_analyticsData',
   STORIES: 'focusPet_stories',
+  FOCUS_LEDGER: 'focusPet_focusLedger',
+  EVENT_BUS: 'focusPet_eventBus',
+  REMINDER_HISTORY: 'focusPet_reminderHistory',
+  POMODORO_STATE: 'focusPet_pomodoroState',
+  DND_STATE: 'focusPet_dndState',
+  DAILY_ACTIVITY: 'focusPet_dailyActivity',
+  FOCUS_GUARD_STATE: 'focusPet_focusGuard',
+  PET_PLACEMENTS: 'focusPet_petPlacements',
 } as const;
 
 // Events
 export type ExtensionEvent = 
   | 'pet:stateChanged'
   | 'pet:animationChanged'
+  | 'pet:leveledUp'
   | 'reminder:triggered'
   | 'reminder:created'
   | 'reminder:updated'
@@ -192,12 +445,15 @@ export type ExtensionEvent =
   | 'focus:sessionStarted'
   | 'focus:sessionEnded'
   | 'focus:treatEarned'
+  | 'pomodoro:phaseChanged'
+  | 'dnd:changed'
   | 'achievement:unlocked'
   | 'settings:updated';
 
 export interface ExtensionEventData {
   'pet:stateChanged': { petState: PetState };
   'pet:animationChanged': { animation: PetAnimation; petType: PetType };
+  'pet:leveledUp': { level: number; stage: PetStage; evolved: boolean };
   'reminder:triggered': { reminder: Reminder };
   'reminder:created': { reminder: Reminder };
   'reminder:updated': { reminder: Reminder };
@@ -205,6 +461,8 @@ export interface ExtensionEventData {
   'focus:sessionStarted': { session: FocusSession };
   'focus:sessionEnded': { session: FocusSession };
   'focus:treatEarned': { treats: number; reason: string };
+  'pomodoro:phaseChanged': { state: PomodoroState };
+  'dnd:changed': { status: DndStatus };
   'achievement:unlocked': { achievement: Achievement };
   'settings:updated': { settings: UserSettings };
 } 
\ No newline at end of file